@@ -0,0 +1,119 @@
+/**
+ * AI Difficulty for Fright Night
+ * Presets for the enemy AI's decision layer (src/enemyAI.ts) - picked on the title screen or in the pause settings
+ */
+
+import { MenuStateComponent, getMenuState } from './menuState'
+
+export type AIDifficulty = 'easy' | 'normal' | 'hard' | 'expert' | 'nightmare'
+
+// Everything the AI's skill depends on (chances are per decision tick unless noted)
+export interface AIProfile {
+  name: string
+  reactionTime: number // Seconds before the AI sees what the player is doing
+  blockAccuracy: number // Chance to guard an attack it sees coming, and to pick the right guard height
+  punishRate: number // Chance to punish a recovery it sees
+  spacing: number // 0 = walks straight into the player, 1 = holds the tip of its reach and backs off when crowded
+  aggression: number // Chance to start an attack when in range
+  throwRate: number // Chance to throw a guarding player in reach
+  techRate: number // Chance to break the player's throws (per throw)
+  adaptation: number // How far the AI shifts to counter the player's habits (0 = never adapts)
+}
+
+export const AI_DIFFICULTY_ORDER: AIDifficulty[] = ['easy', 'normal', 'hard', 'expert', 'nightmare']
+
+export const DEFAULT_AI_DIFFICULTY: AIDifficulty = 'normal'
+
+export const AI_DIFFICULTIES: Record<AIDifficulty, AIProfile> = {
+  easy: {
+    name: 'EASY',
+    reactionTime: 0.45,
+    blockAccuracy: 0.15,
+    punishRate: 0.1,
+    spacing: 0.2,
+    aggression: 0.08,
+    throwRate: 0.05,
+    techRate: 0.05,
+    adaptation: 0
+  },
+  normal: {
+    name: 'NORMAL',
+    reactionTime: 0.3,
+    blockAccuracy: 0.35,
+    punishRate: 0.3,
+    spacing: 0.5,
+    aggression: 0.15,
+    throwRate: 0.1,
+    techRate: 0.25,
+    adaptation: 0.25
+  },
+  hard: {
+    name: 'HARD',
+    reactionTime: 0.22,
+    blockAccuracy: 0.55,
+    punishRate: 0.55,
+    spacing: 0.7,
+    aggression: 0.22,
+    throwRate: 0.2,
+    techRate: 0.45,
+    adaptation: 0.5
+  },
+  expert: {
+    name: 'EXPERT',
+    reactionTime: 0.15,
+    blockAccuracy: 0.75,
+    punishRate: 0.75,
+    spacing: 0.85,
+    aggression: 0.28,
+    throwRate: 0.3,
+    techRate: 0.65,
+    adaptation: 0.75
+  },
+  nightmare: {
+    name: 'NIGHTMARE',
+    reactionTime: 0.1,
+    blockAccuracy: 0.9,
+    punishRate: 0.95,
+    spacing: 0.95,
+    aggression: 0.35,
+    throwRate: 0.45,
+    techRate: 0.85,
+    adaptation: 1
+  }
+}
+
+/**
+ * Selected difficulty (stored in the menu state so it survives returning to the title)
+ * Arcade ladder fights use the ladder's own difficulty instead
+ */
+export function getAIDifficulty(): AIDifficulty {
+  const menuStateEntity = getMenuState()
+  const menuState = menuStateEntity ? MenuStateComponent.getOrNull(menuStateEntity) : null
+  const arcadeFight = !!menuState && menuState.gameMode === 'arcade' && menuState.arcadeDifficulty !== ''
+  const difficulty = menuState
+    ? ((arcadeFight ? menuState.arcadeDifficulty : menuState.aiDifficulty) as AIDifficulty)
+    : DEFAULT_AI_DIFFICULTY
+  return AI_DIFFICULTIES[difficulty] ? difficulty : DEFAULT_AI_DIFFICULTY
+}
+
+export function getAIProfile(): AIProfile {
+  return AI_DIFFICULTIES[getAIDifficulty()]
+}
+
+export function setAIDifficulty(difficulty: AIDifficulty): void {
+  const menuStateEntity = getMenuState()
+  if (!menuStateEntity) return
+
+  MenuStateComponent.getMutable(menuStateEntity).aiDifficulty = difficulty
+  console.log(`🤖 AI difficulty: ${AI_DIFFICULTIES[difficulty].name}`)
+}
+
+/**
+ * Step to the next difficulty (wraps from Nightmare back to Easy)
+ */
+export function cycleAIDifficulty(): AIDifficulty {
+  const index = AI_DIFFICULTY_ORDER.indexOf(getAIDifficulty())
+  const next = AI_DIFFICULTY_ORDER[(index + 1) % AI_DIFFICULTY_ORDER.length]
+  setAIDifficulty(next)
+  return next
+}
@@ -0,0 +1,237 @@
+/**
+ * Arcade Mode for Fright Night
+ * One fighter against a ladder of CPU opponents - difficulty rises every two fights, stages rotate,
+ * and DEMON KING waits at the top with boosted stats. Losing offers a continue; beating the boss shows the ending.
+ * Progress lives in the menu state (see the arcade MenuScreen states in menuState.ts).
+ */
+
+import {
+  MenuStateComponent,
+  getMenuState,
+  getCharacterById,
+  CHARACTERS,
+  STAGES,
+  Character,
+  CharacterId,
+  StageId,
+  MenuScreen
+} from './menuState'
+import { AIDifficulty, AI_DIFFICULTY_ORDER, getAIDifficulty } from './aiDifficulty'
+
+const ARCADE_OPPONENTS = 5 // Fights before the boss
+const ARCADE_BOSS: CharacterId = 'char7' // DEMON KING
+const ARCADE_BOSS_STAGE: StageId = 'creepy'
+const ARCADE_CONTINUES = 3
+const ARCADE_CONTINUE_TIME = 10 // Seconds to accept a continue
+
+// Final boss stat boosts
+const BOSS_HEALTH = 1.5
+const BOSS_DAMAGE = 1.2
+const BOSS_DEFENSE = 1.15
+const BOSS_WEIGHT = 1.25
+
+export function isArcadeRun(): boolean {
+  const menuStateEntity = getMenuState()
+  const menuState = menuStateEntity ? MenuStateComponent.getOrNull(menuStateEntity) : null
+  return !!menuState && menuState.gameMode === 'arcade'
+}
+
+/**
+ * Title screen - pick a fighter next, then the ladder starts
+ */
+export function selectArcadeMode(): void {
+  const menuStateEntity = getMenuState()
+  if (!menuStateEntity) return
+
+  const menuState = MenuStateComponent.getMutable(menuStateEntity)
+  menuState.gameMode = 'arcade'
+  menuState.currentScreen = 'characterSelect'
+  menuState.selectingPlayer = true
+  console.log('🕹️ Arcade Mode selected')
+}
+
+/**
+ * Fighter picked - build a fresh ladder (random order, boss last)
+ */
+export function startArcadeRun(playerCharacterId: CharacterId): void {
+  const menuStateEntity = getMenuState()
+  if (!menuStateEntity) return
+
+  const pool = CHARACTERS.filter((c) => c.available && c.id !== ARCADE_BOSS && c.id !== playerCharacterId)
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[pool[i], pool[j]] = [pool[j], pool[i]]
+  }
+
+  const menuState = MenuStateComponent.getMutable(menuStateEntity)
+  menuState.playerCharacterId = playerCharacterId
+  menuState.arcadeLadder = [...pool.slice(0, ARCADE_OPPONENTS).map((c) => c.id), ARCADE_BOSS]
+  menuState.arcadeRung = 0
+  menuState.arcadeContinues = ARCADE_CONTINUES
+  menuState.currentScreen = 'arcadeLadder'
+  console.log(`🕹️ Arcade ladder: ${menuState.arcadeLadder.length} fights`)
+}
+
+/**
+ * Ladder screen - set up the next fight (opponent, stage, difficulty) and load it
+ */
+export function startArcadeFight(): void {
+  const menuStateEntity = getMenuState()
+  if (!menuStateEntity) return
+
+  const menuState = MenuStateComponent.getMutable(menuStateEntity)
+  const rung = menuState.arcadeRung
+  const bossFight = rung === menuState.arcadeLadder.length - 1
+
+  menuState.enemyCharacterId = menuState.arcadeLadder[rung]
+  menuState.stageId = bossFight ? ARCADE_BOSS_STAGE : STAGES[rung % STAGES.length].id
+  menuState.arcadeDifficulty = getLadderDifficulty(menuState.aiDifficulty as AIDifficulty, rung, bossFight)
+  menuState.currentScreen = 'loading'
+  console.log(`🕹️ Arcade fight ${rung + 1}/${menuState.arcadeLadder.length} (${menuState.arcadeDifficulty})`)
+}
+
+/**
+ * Difficulty of a ladder fight - one step above the selected preset every two fights, boss one more
+ */
+function getLadderDifficulty(selected: AIDifficulty, rung: number, bossFight: boolean): AIDifficulty {
+  const base = Math.max(0, AI_DIFFICULTY_ORDER.indexOf(selected))
+  const steps = Math.floor(rung / 2) + (bossFight ? 1 : 0)
+  return AI_DIFFICULTY_ORDER[Math.min(AI_DIFFICULTY_ORDER.length - 1, base + steps)]
+}
+
+/**
+ * Ladder progress for the current run
+ */
+export function getArcadeProgress(): { rung: number; fights: number; continues: number; bossFight: boolean } {
+  const menuStateEntity = getMenuState()
+  const menuState = menuStateEntity ? MenuStateComponent.getOrNull(menuStateEntity) : null
+  if (!menuState) return { rung: 0, fights: 0, continues: 0, bossFight: false }
+
+  const fights = menuState.arcadeLadder.length
+  return {
+    rung: menuState.arcadeRung,
+    fights,
+    continues: menuState.arcadeContinues,
+    bossFight: fights > 0 && menuState.arcadeRung === fights - 1
+  }
+}
+
+/**
+ * The current ladder opponent - the boss fights with boosted stats
+ */
+export function getArcadeOpponent(character: Character): Character {
+  if (!isArcadeRun() || !getArcadeProgress().bossFight) return character
+
+  const stats = character.stats
+  return {
+    ...character,
+    stats: {
+      ...stats,
+      health: Math.round(stats.health * BOSS_HEALTH),
+      damage: stats.damage * BOSS_DAMAGE,
+      defense: stats.defense * BOSS_DEFENSE,
+      weight: stats.weight * BOSS_WEIGHT
+    }
+  }
+}
+
+/**
+ * Match over - the screen to leave the battle for (next rung, ending, continue or game over)
+ */
+export function finishArcadeFight(playerWon: boolean): MenuScreen {
+  const menuStateEntity = getMenuState()
+  if (!menuStateEntity) return 'title'
+
+  const menuState = MenuStateComponent.getMutable(menuStateEntity)
+  if (playerWon) {
+    menuState.arcadeRung += 1
+    if (menuState.arcadeRung >= menuState.arcadeLadder.length) {
+      console.log('👑 Arcade cleared!')
+      return 'arcadeEnding'
+    }
+    return 'arcadeLadder'
+  }
+
+  if (menuState.arcadeContinues <= 0) {
+    console.log('💀 No continues left - GAME OVER')
+    return 'arcadeGameOver'
+  }
+  menuState.continueTimer = ARCADE_CONTINUE_TIME
+  return 'arcadeContinue'
+}
+
+/**
+ * Continue screen - retry the same fight
+ */
+export function acceptArcadeContinue(): void {
+  const menuStateEntity = getMenuState()
+  if (!menuStateEntity) return
+
+  const menuState = MenuStateComponent.getMutable(menuStateEntity)
+  menuState.arcadeContinues -= 1
+  menuState.currentScreen = 'loading'
+  console.log(`🕹️ Continue! ${menuState.arcadeContinues} left`)
+}
+
+export function declineArcadeContinue(): void {
+  const menuStateEntity = getMenuState()
+  if (!menuStateEntity) return
+
+  MenuStateComponent.getMutable(menuStateEntity).currentScreen = 'arcadeGameOver'
+  console.log('💀 GAME OVER')
+}
+
+/**
+ * Continue countdown (called by the menu flow system) - running out is game over
+ */
+export function arcadeContinueSystem(dt: number): void {
+  const menuStateEntity = getMenuState()
+  if (!menuStateEntity) return
+
+  const menuState = MenuStateComponent.getMutableOrNull(menuStateEntity)
+  if (!menuState || menuState.currentScreen !== 'arcadeContinue') return
+
+  menuState.continueTimer -= dt
+  if (menuState.continueTimer <= 0) {
+    menuState.continueTimer = 0
+    declineArcadeContinue()
+  }
+}
+
+/**
+ * Forget the run (back to the title)
+ */
+export function resetArcadeRun(): void {
+  const menuStateEntity = getMenuState()
+  if (!menuStateEntity) return
+
+  const menuState = MenuStateComponent.getMutable(menuStateEntity)
+  menuState.arcadeLadder = []
+  menuState.arcadeRung = 0
+  menuState.arcadeDifficulty = ''
+  menuState.arcadeContinues = 0
+  menuState.continueTimer = 0
+}
+
+/**
+ * Opponents on the ladder, in order (ladder screen)
+ */
+export function getLadderCharacters(): Character[] {
+  const menuStateEntity = getMenuState()
+  const menuState = menuStateEntity ? MenuStateComponent.getOrNull(menuStateEntity) : null
+  if (!menuState) return []
+
+  return menuState.arcadeLadder.map((id) => getCharacterById(id as CharacterId)).filter((c): c is Character => !!c)
+}
+
+/**
+ * Difficulty name for the next ladder fight (ladder screen)
+ */
+export function getNextFightDifficulty(): AIDifficulty {
+  const menuStateEntity = getMenuState()
+  const menuState = menuStateEntity ? MenuStateComponent.getOrNull(menuStateEntity) : null
+  if (!menuState) return getAIDifficulty()
+
+  const progress = getArcadeProgress()
+  return getLadderDifficulty(menuState.aiDifficulty as AIDifficulty, progress.rung, progress.bossFight)
+}
@@ -6,8 +6,18 @@
 
 import { engine, Transform, VirtualCamera, MainCamera, Entity } from '@dcl/sdk/ecs'
 import { Vector3, Quaternion } from '@dcl/sdk/math'
+import { FighterComponent } from './components'
+import { isMatchPaused } from './matchClock'
+
+// Super move cinematic cut
+const SUPER_CUT_DURATION = 0.9 // Real seconds on the close-up
+const SUPER_CUT_SIDE_OFFSET = 1.2 // Camera sits off to the side the fighter is facing
+const SUPER_CUT_DISTANCE = 2.0 // In front of the fighter (towards the side-view camera)
+const SUPER_CUT_HEIGHT = 1.5
 
 let sideCam: Entity | null = null
+let cutCam: Entity | null = null
+let cutTimer = 0 // Real seconds left on the current cut
 
 /**
  * Setup static side-view camera lock
@@ -37,6 +47,57 @@ export function setupLockedCamera(): void {
   console.log('   → VirtualCamera overrides all controls')
 }
 
+/**
+ * Cut to a close-up of a fighter starting a super, then back to the side view
+ */
+export function playSuperCameraCut(fighter: Entity): void {
+  const transform = Transform.getOrNull(fighter)
+  const fighterData = FighterComponent.getOrNull(fighter)
+  if (!sideCam || !transform || !fighterData) return
+
+  if (!cutCam) {
+    cutCam = engine.addEntity()
+    VirtualCamera.create(cutCam, {
+      defaultTransition: { transitionMode: VirtualCamera.Transition.Time(0) } // Hard cut in
+    })
+  }
+
+  const side = fighterData.facingRight ? 1 : -1
+  const position = Vector3.create(
+    transform.position.x + side * SUPER_CUT_SIDE_OFFSET,
+    SUPER_CUT_HEIGHT,
+    transform.position.z - SUPER_CUT_DISTANCE
+  )
+  const lookAt = Vector3.create(transform.position.x, 1.1, transform.position.z)
+  Transform.createOrReplace(cutCam, {
+    position,
+    rotation: Quaternion.lookRotation(Vector3.subtract(lookAt, position))
+  })
+
+  MainCamera.getMutable(engine.CameraEntity).virtualCameraEntity = cutCam
+  cutTimer = SUPER_CUT_DURATION
+}
+
+/**
+ * Camera cut system - returns to the side view once the cut is over (holds while paused)
+ */
+export function cameraCutSystem(dt: number) {
+  if (cutTimer <= 0 || isMatchPaused()) return
+
+  cutTimer -= dt
+  if (cutTimer <= 0) {
+    endCameraCut()
+  }
+}
+
+function endCameraCut() {
+  cutTimer = 0
+  const mainCam = MainCamera.getMutableOrNull(engine.CameraEntity)
+  if (mainCam && sideCam) {
+    mainCam.virtualCameraEntity = sideCam
+  }
+}
+
 /**
  * Restore default camera (unlock)
  */
@@ -49,11 +110,16 @@ export function restoreDefaultCamera(): void {
     mainCam.virtualCameraEntity = undefined
   }
 
-  // Cleanup camera entity
+  // Cleanup camera entities
   if (sideCam) {
     engine.removeEntity(sideCam)
     sideCam = null
   }
+  if (cutCam) {
+    engine.removeEntity(cutCam)
+    cutCam = null
+  }
+  cutTimer = 0
 
   console.log('✅ Camera unlocked (default controls restored)')
 }
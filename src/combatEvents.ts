@@ -0,0 +1,189 @@
+/**
+ * Combat Events for Fright Night
+ * Typed event bus - combat code publishes hits, blocks, whiffs, KOs and round results here,
+ * and UI, audio, VFX, stats or replays subscribe instead of polling FighterComponent fields
+ */
+
+import { Entity } from '@dcl/sdk/ecs'
+import { MoveData } from './moves'
+import { CharacterTrait } from './menuState'
+
+export type FighterSide = 'player' | 'enemy'
+export type RoundResult = FighterSide | 'draw'
+export type RoundEndReason = 'ko' | 'time'
+export type HitType = 'normal' | 'counter' | 'punish' // Counter = hit during startup/active, punish = during recovery
+
+export type CombatEvent =
+  | {
+      type: 'hit'
+      attacker: Entity
+      defender: Entity
+      attackerSide: FighterSide
+      move: MoveData
+      damage: number // After combo scaling
+      damageScale: number // Combo damage scaling applied (1 = full damage)
+      defenderHealth: number // Health left after the hit
+      comboCount: number // Hits in the current combo (1 = first hit)
+      wrongGuard: boolean // A low or overhead beat a guard of the wrong height
+      hitType: HitType
+    }
+  | {
+      type: 'block'
+      attacker: Entity
+      defender: Entity
+      attackerSide: FighterSide
+      move: MoveData
+      chipDamage: number
+      defenderHealth: number
+      guardMeter: number // Defender's guard meter left after the block
+    }
+  | { type: 'guardBreak'; attacker: Entity; defender: Entity; attackerSide: FighterSide }
+  | { type: 'parry'; attacker: Entity; defender: Entity; attackerSide: FighterSide; move: MoveData }
+  | { type: 'throw'; attacker: Entity; defender: Entity; attackerSide: FighterSide } // Grab connected
+  | { type: 'throwTech'; attacker: Entity; defender: Entity; attackerSide: FighterSide } // Defender broke the grab
+  | { type: 'whiff'; attacker: Entity; attackerSide: FighterSide; move: MoveData }
+  | { type: 'super'; attacker: Entity; attackerSide: FighterSide; move: MoveData } // Super meter spent
+  | { type: 'comboEnd'; attacker: Entity; attackerSide: FighterSide; hits: number; damage: number }
+  | { type: 'knockdown'; attacker: Entity; defender: Entity; attackerSide: FighterSide; comboCount: number }
+  | { type: 'ko'; fighter: Entity; side: FighterSide }
+  | { type: 'trait'; fighter: Entity; side: FighterSide; trait: CharacterTrait } // Passive trait kicked in (Undying, Rock Skin)
+  | { type: 'sideSwitch'; fighter: Entity; side: FighterSide; facingRight: boolean }
+  | { type: 'roundStart'; roundNumber: number }
+  | {
+      type: 'roundEnd'
+      roundNumber: number
+      result: RoundResult
+      reason: RoundEndReason
+      playerRoundWins: number
+      enemyRoundWins: number
+    }
+  | { type: 'matchEnd'; result: RoundResult; playerRoundWins: number; enemyRoundWins: number }
+
+export type CombatEventType = CombatEvent['type']
+export type CombatEventOf<T extends CombatEventType> = Extract<CombatEvent, { type: T }>
+
+type Listener = (event: CombatEvent) => void
+
+const listeners = new Map<CombatEventType, Set<Listener>>()
+const anyListeners = new Set<Listener>()
+
+/**
+ * Subscribe to one event type - returns an unsubscribe function
+ */
+export function onCombatEvent<T extends CombatEventType>(type: T, listener: (event: CombatEventOf<T>) => void) {
+  let set = listeners.get(type)
+  if (!set) {
+    set = new Set()
+    listeners.set(type, set)
+  }
+  const wrapped = listener as Listener
+  set.add(wrapped)
+  return () => {
+    set?.delete(wrapped)
+  }
+}
+
+/**
+ * Subscribe to every event (logging, replays) - returns an unsubscribe function
+ */
+export function onAnyCombatEvent(listener: Listener) {
+  anyListeners.add(listener)
+  return () => {
+    anyListeners.delete(listener)
+  }
+}
+
+/**
+ * Publish an event to its subscribers (a failing subscriber never breaks combat)
+ */
+export function emitCombatEvent(event: CombatEvent): void {
+  const targets = [...(listeners.get(event.type) ?? []), ...anyListeners]
+  for (const listener of targets) {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error(`❌ Combat event listener failed on '${event.type}':`, error)
+    }
+  }
+}
+
+function sideName(side: FighterSide): string {
+  return side === 'player' ? 'Player' : 'Enemy'
+}
+
+/**
+ * Console logger for combat events (subscribed at startup)
+ */
+export function logCombatEvent(event: CombatEvent): void {
+  switch (event.type) {
+    case 'hit':
+      if (event.comboCount > 1) {
+        console.log(`🔥 ${event.comboCount} HIT COMBO! (${Math.round(event.damageScale * 100)}% damage)`)
+      }
+      if (event.hitType !== 'normal') {
+        console.log(event.hitType === 'counter' ? '🎯 COUNTER HIT!' : '🎯 PUNISH!')
+      }
+      if (event.wrongGuard) {
+        console.log(`⚡ ${event.move.height.toUpperCase()} attack beat the guard!`)
+      }
+      console.log(
+        `💥 ${sideName(event.attackerSide)} hit with ${event.move.name} for ${event.damage}! HP left: ${event.defenderHealth}`
+      )
+      break
+    case 'block':
+      console.log(
+        `🛡️ ${sideName(event.attackerSide === 'player' ? 'enemy' : 'player')} BLOCKED! Chip damage: ${event.chipDamage}, guard: ${Math.round(event.guardMeter)}`
+      )
+      break
+    case 'guardBreak':
+      console.log(`💢 ${sideName(event.attackerSide === 'player' ? 'enemy' : 'player')} GUARD BROKEN!`)
+      break
+    case 'parry':
+      console.log(`⚡ ${sideName(event.attackerSide === 'player' ? 'enemy' : 'player')} PARRIED ${event.move.name}!`)
+      break
+    case 'throw':
+      console.log(`🤼 ${sideName(event.attackerSide)} GRABBED!`)
+      break
+    case 'throwTech':
+      console.log(`✋ ${sideName(event.attackerSide === 'player' ? 'enemy' : 'player')} broke the throw!`)
+      break
+    case 'super':
+      console.log(`🌟 ${sideName(event.attackerSide)} SUPER: ${event.move.name}!`)
+      break
+    case 'whiff':
+      console.log(`⚠️ ${sideName(event.attackerSide)} WHIFFED ${event.move.name}! Longer recovery`)
+      break
+    case 'comboEnd':
+      console.log(`🔥 ${sideName(event.attackerSide)} combo over: ${event.hits} hits, ${event.damage} damage`)
+      break
+    case 'knockdown':
+      console.log(`🔥 ${event.comboCount} HIT COMBO! KNOCKBACK!`)
+      break
+    case 'ko':
+      console.log(`💀 ${sideName(event.side)} is KO'd!`)
+      break
+    case 'trait':
+      if (event.trait === 'undying') {
+        console.log(`💀 ${sideName(event.side)} UNDYING - survived with 1 HP!`)
+      } else if (event.trait === 'rockSkin') {
+        console.log(`🪨 ${sideName(event.side)} ROCK SKIN - armored through the hit!`)
+      }
+      break
+    case 'sideSwitch':
+      console.log(`🔄 ${sideName(event.side)} switched sides`)
+      break
+    case 'roundStart':
+      console.log(`🥊 ROUND ${event.roundNumber} - FIGHT!`)
+      break
+    case 'roundEnd': {
+      const how = event.reason === 'time' ? '⏰ TIME OVER' : event.result === 'draw' ? '💀💀 DOUBLE K.O.' : 'K.O.'
+      console.log(
+        `🔔 Round ${event.roundNumber}: ${how} - ${event.result.toUpperCase()} (${event.playerRoundWins}:${event.enemyRoundWins})`
+      )
+      break
+    }
+    case 'matchEnd':
+      console.log(event.result === 'draw' ? '🤝 MATCH DRAWN!' : `🏆 ${event.result.toUpperCase()} WINS!`)
+      break
+  }
+}
@@ -1,24 +1,66 @@
 import { Schemas, engine } from '@dcl/sdk/ecs'
 
 // Animation states
-export type AnimationState = 'idle' | 'walk' | 'attack' | 'impact' | 'stun' | 'die' | 'block'
+export type AnimationState =
+  | 'idle'
+  | 'walk'
+  | 'crouch'
+  | 'attack'
+  | 'attack2' // Second attack swing (only some models)
+  | 'attack_heavy'
+  | 'attack_special'
+  | 'attack_low'
+  | 'attack_overhead'
+  | 'attack_super'
+  | 'impact'
+  | 'stun'
+  | 'die'
+  | 'block'
+  | 'crouch_block'
+  | 'parry'
+  | 'turn'
+  | 'throw'
+  | 'thrown'
 
 // Fighter component - ECS-based fighter data
 export const FighterComponent = engine.defineComponent('fighter::component', {
   isPlayer: Schemas.Boolean,
+  characterId: Schemas.String, // Selected character (move list lookup)
   health: Schemas.Number,
   maxHealth: Schemas.Number,
-  animationTimer: Schemas.Number, // For timed animation resets
+  startHealth: Schemas.Number, // Health each round starts with (survival carries damage between fights)
+  walkSpeed: Schemas.Number, // Character base stats (see CharacterStats in menuState.ts)
+  damageMultiplier: Schemas.Number,
+  defense: Schemas.Number,
+  weight: Schemas.Number,
+  trait: Schemas.String, // Passive trait (CharacterTrait)
+  traitUsed: Schemas.Boolean, // Once-per-round traits (armor, undying) spent
+  regenDelay: Schemas.Number, // Seconds until the next regeneration tick (regeneration trait)
+  state: Schemas.String, // FighterState (see fighterState.ts)
+  stance: Schemas.String, // 'standing' | 'crouching' - hurtbox and guard height
+  stateTimer: Schemas.Number, // Time left in a timed state (startup, hitstun, dash...)
   currentAnimation: Schemas.String,
+  currentMove: Schemas.String, // Move being performed ('' when not attacking)
+  moveConnected: Schemas.Boolean, // Current move already hit or was blocked
   invincibilityTimer: Schemas.Number, // I-frames after hit (prevents spam damage)
+  parryTimer: Schemas.Number, // Parry window left since block was pressed (0 = closed)
+  parryCooldown: Schemas.Number, // Seconds until block can open a new parry window (no mashing)
   attackCooldown: Schemas.Number, // Per-fighter attack cooldown
-  stunTimer: Schemas.Number, // Hit stun duration (0.2s, blocks all actions)
-  blocking: Schemas.Boolean, // Is currently blocking (reduces damage 50%)
+  holdingBack: Schemas.Boolean, // Holding away from the opponent (guards when not attacking)
+  facingRight: Schemas.Boolean, // Which side the opponent is on (forward = towards them)
   knockbackActive: Schemas.Boolean, // Is currently being knocked back
   knockbackProgress: Schemas.Number, // 0-1 progress through knockback
   knockbackDirX: Schemas.Number, // Knockback direction X
   knockbackDirY: Schemas.Number, // Knockback direction Y
-  knockbackDirZ: Schemas.Number // Knockback direction Z
+  knockbackDirZ: Schemas.Number, // Knockback direction Z
+  dashVelocityX: Schemas.Number, // Dash speed along X (signed)
+  comboCount: Schemas.Number, // Hits landed in this fighter's current combo
+  comboDamage: Schemas.Number, // Damage dealt by the current combo
+  guardMeter: Schemas.Number, // Drains on blocked hits - empty = guard break
+  maxGuard: Schemas.Number,
+  guardRegenDelay: Schemas.Number, // Seconds after a block before the guard meter refills
+  superMeter: Schemas.Number, // Builds when dealing and taking damage - full = super move (kept between rounds)
+  maxSuper: Schemas.Number
 })
 
 // Animation timer component - tracks when to reset animations
@@ -30,11 +72,16 @@ export const AnimationTimer = engine.defineComponent('fighter::animation-timer',
 // Game state component
 export const GameState = engine.defineComponent('game::state', {
   isMatchActive: Schemas.Boolean,
-  winner: Schemas.String, // 'player' | 'enemy' | 'draw' | ''
-  comboCount: Schemas.Number,
-  lastHitTime: Schemas.Number,
+  winner: Schemas.String, // Match winner: 'player' | 'enemy' | 'draw' | ''
   roundNumber: Schemas.Number,
-  countdownTimer: Schemas.Number // 3-second countdown before fight starts
+  countdownTimer: Schemas.Number, // 3-second countdown before fight starts
+  roundsToWin: Schemas.Number, // First to this many round wins takes the match
+  playerRoundWins: Schemas.Number,
+  enemyRoundWins: Schemas.Number,
+  roundTimer: Schemas.Number, // Seconds left on the round clock
+  roundWinner: Schemas.String, // Last round's winner: 'player' | 'enemy' | 'draw' | ''
+  roundEndReason: Schemas.String, // 'ko' | 'time' | ''
+  roundEndTimer: Schemas.Number // Pause after a round before the next one starts
 })
 
 // Arena configuration constants
@@ -62,3 +109,11 @@ export const ARENA_CONFIG = {
   zMin: 7,
   zMax: 11
 }
+
+// Match rules
+export const MATCH_CONFIG = {
+  roundsToWin: 2, // Best of 3
+  roundTime: 60, // Seconds per round
+  roundEndDelay: 3, // Seconds the round result stays up before the next round
+  countdownTime: 3 // ROUND X / READY / FIGHT
+}
@@ -0,0 +1,406 @@
+/**
+ * Enemy AI for Fright Night
+ * Decision layer on a fixed tick - the AI sees the player through its reaction delay, then guards, punishes,
+ * throws, attacks or picks a movement intent using its difficulty preset (src/aiDifficulty.ts), shaped by
+ * the character's personality (zoner, rushdown, turtle, grappler). From round 2 it also counters the player's habits
+ * (src/playerHabits.ts) as far as the difficulty's adaptation allows. Movement for the current intent still runs every frame.
+ */
+
+import { Entity, Transform } from '@dcl/sdk/ecs'
+import { Vector3 } from '@dcl/sdk/math'
+import { FighterComponent, ARENA_CONFIG, GameState } from './components'
+import { getGameState } from './factory'
+import { MoveId, AttackHeight } from './moves'
+import { canAct, getFighterState, setFighterState, FighterState } from './fighterState'
+import { getMatchDelta, getMatchTime } from './matchClock'
+import { getAIProfile, AIProfile } from './aiDifficulty'
+import { getCharacterById, CharacterId, AIPersonality } from './menuState'
+import { observePlayerHabits, getLearnedHabits, getRoundTime, getLastWhiffRecovery } from './playerHabits'
+import { getPlayerEntity, getEnemyEntity, getFighterMove, performAttack, enterGuard } from './systems'
+
+const AI_DECISION_TICK = 0.1 // Seconds between decisions (same behaviour at any frame rate)
+const AI_WALK_SCALE = 0.8 // AI walks a bit slower than its character's walk speed
+const AI_THREAT_RANGE = 2.5 // Player attacks started closer than this are worth guarding
+const AI_MEMORY = 1.0 // Seconds of player snapshots kept (longer than any reaction time)
+const AI_CROWDED_MARGIN = 0.4 // Backs off when this much closer than its ideal range
+const AI_OPENING_GUARD = 1.0 // Seconds it guards at round start against a player who opens with attacks
+const AI_WHIFF_READ = 0.6 // Seconds after the player's whiff recovers that a throw read lasts
+
+// Personality - scales the difficulty preset and picks the range and moves the character fights with
+type PersonalityProfile = {
+  rangeMove: MoveId // Move whose reach sets the ideal range (zoners fight at special range, grapplers at throw range)
+  aggression: number // Multipliers on the difficulty preset
+  blockAccuracy: number
+  punishRate: number
+  throwRate: number
+  throwsOpenPlayers: boolean // Throws even when the player isn't guarding
+  moves: Partial<Record<MoveId, number>> // Neutral attack weights (moves out of reach are skipped)
+}
+
+const AI_PERSONALITIES: Record<AIPersonality, PersonalityProfile> = {
+  // Mixes everything up at mid range
+  balanced: {
+    rangeMove: 'light',
+    aggression: 1,
+    blockAccuracy: 1,
+    punishRate: 1,
+    throwRate: 1,
+    throwsOpenPlayers: false,
+    moves: { light: 3, heavy: 2, special: 1.5, crouchLight: 1.5, crouchHeavy: 1, overhead: 1 }
+  },
+  // Keeps the player at the end of its longest reach
+  zoner: {
+    rangeMove: 'special',
+    aggression: 0.8,
+    blockAccuracy: 1.15,
+    punishRate: 1,
+    throwRate: 0.5,
+    throwsOpenPlayers: false,
+    moves: { special: 4, heavy: 3, light: 1, crouchHeavy: 1 }
+  },
+  // Walks in and keeps attacking with fast pokes and mix-ups
+  rushdown: {
+    rangeMove: 'crouchLight',
+    aggression: 1.7,
+    blockAccuracy: 0.7,
+    punishRate: 1,
+    throwRate: 1.5,
+    throwsOpenPlayers: false,
+    moves: { light: 4, crouchLight: 3, overhead: 2, crouchHeavy: 1.5, heavy: 1 }
+  },
+  // Waits behind its guard and punishes mistakes
+  turtle: {
+    rangeMove: 'light',
+    aggression: 0.45,
+    blockAccuracy: 1.5,
+    punishRate: 1.5,
+    throwRate: 0.5,
+    throwsOpenPlayers: false,
+    moves: { heavy: 3, light: 2, crouchLight: 1 }
+  },
+  // Gets close and throws
+  grappler: {
+    rangeMove: 'throw',
+    aggression: 0.8,
+    blockAccuracy: 1,
+    punishRate: 1,
+    throwRate: 3,
+    throwsOpenPlayers: true,
+    moves: { heavy: 3, crouchHeavy: 2, light: 1, overhead: 1 }
+  }
+}
+
+// What the AI is doing between decisions
+type AIIntent = 'approach' | 'hold' | 'retreat' | 'guard'
+
+// What the player was doing at a moment in match time
+type PlayerSnapshot = {
+  time: number
+  state: FighterState
+  height: AttackHeight | '' // Height of the attack in progress
+  guarding: boolean
+}
+
+let decisionTimer = 0
+let intent: AIIntent = 'approach'
+let snapshots: PlayerSnapshot[] = []
+let openingGuard: boolean | null = null // Decided on the round's first tick
+let whiffReadAt = -1 // Whiff recovery the AI has already read
+let expectWhiffBlock = false // Read: the player will guard after this whiff
+
+/**
+ * Forget everything (round start)
+ */
+function resetEnemyAI() {
+  decisionTimer = 0
+  intent = 'approach'
+  snapshots = []
+  openingGuard = null
+  whiffReadAt = -1
+  expectWhiffBlock = false
+}
+
+/**
+ * Enemy AI system - perception every frame, decisions on the tick
+ */
+export function enemyAISystem() {
+  const dt = getMatchDelta()
+  if (dt <= 0) return // Clock frozen (pause / hit-stop)
+
+  // Check if match has started (countdown finished)
+  const gameStateEntity = getGameState()
+  if (gameStateEntity) {
+    const gameState = GameState.getOrNull(gameStateEntity)
+    if (gameState && (gameState.countdownTimer > 0 || !gameState.isMatchActive)) {
+      resetEnemyAI() // Don't allow AI movement during countdown or after match end
+      return
+    }
+  }
+
+  const enemy = getEnemyEntity()
+  const player = getPlayerEntity()
+  if (!enemy || !player) return
+
+  const enemyFighter = FighterComponent.getMutableOrNull(enemy)
+  const playerFighter = FighterComponent.getOrNull(player)
+  if (!enemyFighter || !playerFighter) return
+
+  recordPlayerSnapshot(player)
+  observePlayerHabits(player, getDistance(enemy, player))
+
+  // Don't act if dead or busy (attacking, stunned, dashing, turning)
+  if (enemyFighter.health <= 0 || playerFighter.health <= 0) return
+  if (!canAct(getFighterState(enemy))) return
+
+  const personality = getPersonality(enemyFighter.characterId)
+  decisionTimer -= dt
+  if (decisionTimer <= 0) {
+    decisionTimer += AI_DECISION_TICK
+    decide(enemy, player, applyPersonality(getAIProfile(), personality), personality)
+  }
+
+  // Decisions can start an attack - only walk if still free
+  if (canAct(getFighterState(enemy))) {
+    applyIntent(enemy, player, dt)
+  }
+}
+
+/**
+ * Personality of the character the AI is playing
+ */
+function getPersonality(characterId: string): PersonalityProfile {
+  const character = getCharacterById(characterId as CharacterId)
+  return AI_PERSONALITIES[character ? character.aiPersonality : 'balanced']
+}
+
+/**
+ * Difficulty preset scaled by the personality (chances stay within 0-1)
+ */
+function applyPersonality(profile: AIProfile, personality: PersonalityProfile): AIProfile {
+  return {
+    ...profile,
+    aggression: Math.min(1, profile.aggression * personality.aggression),
+    blockAccuracy: Math.min(1, profile.blockAccuracy * personality.blockAccuracy),
+    punishRate: Math.min(1, profile.punishRate * personality.punishRate),
+    throwRate: Math.min(1, profile.throwRate * personality.throwRate)
+  }
+}
+
+/**
+ * Remember what the player is doing right now
+ */
+function recordPlayerSnapshot(player: Entity) {
+  const fighter = FighterComponent.getOrNull(player)
+  if (!fighter) return
+
+  const now = getMatchTime()
+  const state = getFighterState(player)
+  snapshots.push({
+    time: now,
+    state,
+    height: fighter.currentMove !== '' ? getFighterMove(player, fighter.currentMove as MoveId).height : '',
+    guarding: state === 'block' || fighter.holdingBack
+  })
+
+  // Drop snapshots too old to matter (or from before a clock reset)
+  snapshots = snapshots.filter((s) => s.time <= now && now - s.time <= AI_MEMORY)
+}
+
+/**
+ * What the AI has noticed so far - the player as they were `reactionTime` seconds ago
+ */
+function perceivePlayer(reactionTime: number): PlayerSnapshot | null {
+  const seenBefore = getMatchTime() - reactionTime
+  let seen: PlayerSnapshot | null = null
+  for (const snapshot of snapshots) {
+    if (snapshot.time > seenBefore) break
+    seen = snapshot
+  }
+  return seen
+}
+
+/**
+ * One decision: guard, punish, throw, attack - or pick how to move until the next tick
+ */
+function decide(enemy: Entity, player: Entity, profile: AIProfile, personality: PersonalityProfile) {
+  const enemyFighter = FighterComponent.getMutable(enemy)
+  const distance = getDistance(enemy, player)
+  const seen = perceivePlayer(profile.reactionTime)
+  const ready = enemyFighter.attackCooldown <= 0
+  const attackRange = getFighterMove(enemy, personality.rangeMove).range
+  const throwRange = getFighterMove(enemy, 'throw').range
+  const guarding = getFighterState(enemy) === 'block'
+  const habits = getLearnedHabits()
+
+  // Player likes to open rounds with an attack - start behind a guard
+  if (openingGuard === null) {
+    openingGuard = habits.openingAttackRate !== null && Math.random() < habits.openingAttackRate * profile.adaptation
+    if (openingGuard) console.log('🧠 AI expects an opening attack - guarding')
+  }
+  if (openingGuard && getRoundTime() < AI_OPENING_GUARD) {
+    enemyFighter.stance = 'standing'
+    enterGuard(enemy)
+    intent = 'guard'
+    return
+  }
+
+  // Guard an attack it has seen start (already guarding = keep it up, maybe fix the height)
+  const threatened = !!seen && (seen.state === 'startup' || seen.state === 'active') && distance < AI_THREAT_RANGE
+  if (threatened && (guarding || Math.random() < profile.blockAccuracy)) {
+    enemyFighter.stance = chooseGuardStance(seen, profile)
+    enterGuard(enemy)
+    intent = 'guard'
+    return
+  }
+
+  // Threat over - drop the guard
+  if (guarding) {
+    setFighterState(enemy, 'idle')
+  }
+  enemyFighter.stance = 'standing' // Stand back up after a low attack or crouching guard
+
+  // Punish a recovery it has seen with the biggest move in reach
+  if (seen && seen.state === 'recovery' && ready && Math.random() < profile.punishRate) {
+    const punish = chooseAIMove(enemy, distance, true, personality)
+    if (getFighterMove(enemy, punish).range > distance) {
+      performAttack(enemy, punish)
+      console.log('🔥 AI PUNISHED YOUR WHIFF!')
+      return
+    }
+  }
+
+  // Player tends to guard after a whiff - read it once per whiff and go for a throw
+  const whiffRecovered = getLastWhiffRecovery()
+  if (whiffRecovered >= 0 && whiffRecovered !== whiffReadAt) {
+    whiffReadAt = whiffRecovered
+    const rate = habits.blockAfterWhiffRate
+    expectWhiffBlock = rate !== null && Math.random() < rate * profile.adaptation
+  }
+  const expectingBlock = expectWhiffBlock && getMatchTime() - whiffReadAt <= AI_WHIFF_READ
+  if (expectingBlock && ready && distance <= throwRange) {
+    expectWhiffBlock = false
+    performAttack(enemy, 'throw')
+    console.log('🧠 AI read your guard after the whiff - THROW!')
+    return
+  }
+
+  // Blocking beats strikes - throw a player who keeps guarding (grapplers throw anyone in reach)
+  const throwable = !!seen && (seen.guarding || personality.throwsOpenPlayers)
+  if (throwable && ready && distance <= throwRange && Math.random() < profile.throwRate) {
+    performAttack(enemy, 'throw')
+    return
+  }
+
+  // Footsies - poke when in reach
+  if (distance <= attackRange && ready && Math.random() < profile.aggression) {
+    performAttack(enemy, chooseAIMove(enemy, distance, false, personality))
+    return
+  }
+
+  const closeIn = expectingBlock || (!!seen && seen.guarding)
+  intent = chooseIntent(distance, closeIn ? throwRange : attackRange, profile, closeIn ? null : habits.preferredRange)
+}
+
+/**
+ * Movement intent from spacing skill - good spacing holds the tip of its reach, poor spacing walks right in.
+ * An adapting AI drifts toward sitting just outside the range the player likes to attack from.
+ */
+function chooseIntent(distance: number, reach: number, profile: AIProfile, playerRange: number | null): AIIntent {
+  let idealRange = reach * (0.5 + 0.45 * profile.spacing)
+  if (playerRange !== null) {
+    idealRange += (playerRange + AI_CROWDED_MARGIN - idealRange) * profile.adaptation
+  }
+
+  if (distance > idealRange) return 'approach'
+  if (distance < idealRange - AI_CROWDED_MARGIN && Math.random() < profile.spacing) return 'retreat'
+  return 'hold'
+}
+
+/**
+ * Carry out the current intent this frame
+ */
+function applyIntent(enemy: Entity, player: Entity, dt: number) {
+  const enemyFighter = FighterComponent.getMutable(enemy)
+  enemyFighter.holdingBack = intent === 'retreat' // Walking away guards, like the player holding back
+
+  if (intent === 'guard') return
+
+  if (intent === 'hold') {
+    if (getFighterState(enemy) !== 'idle') {
+      setFighterState(enemy, 'idle')
+    }
+    return
+  }
+
+  const enemyTransform = Transform.getMutableOrNull(enemy)
+  const playerTransform = Transform.getOrNull(player)
+  if (!enemyTransform || !playerTransform) return
+
+  const direction = Vector3.subtract(playerTransform.position, enemyTransform.position)
+  direction.y = 0
+  if (Vector3.length(direction) < 0.01) return
+
+  const away = intent === 'retreat' ? -1 : 1
+  const velocity = Vector3.scale(Vector3.normalize(direction), away * enemyFighter.walkSpeed * AI_WALK_SCALE * dt)
+  let newPosition = Vector3.add(enemyTransform.position, velocity)
+
+  // Constrain to arena
+  newPosition.x = Math.max(ARENA_CONFIG.xMin, Math.min(ARENA_CONFIG.xMax, newPosition.x))
+  newPosition.z = Math.max(ARENA_CONFIG.zMin, Math.min(ARENA_CONFIG.zMax, newPosition.z))
+  newPosition.y = 0
+
+  enemyTransform.position = newPosition
+
+  if (getFighterState(enemy) !== 'walk') {
+    setFighterState(enemy, 'walk')
+  }
+}
+
+function getDistance(a: Entity, b: Entity): number {
+  const transformA = Transform.getOrNull(a)
+  const transformB = Transform.getOrNull(b)
+  if (!transformA || !transformB) return Infinity
+  return Vector3.distance(transformA.position, transformB.position)
+}
+
+/**
+ * Pick an AI attack that reaches the player, weighted by personality
+ */
+function chooseAIMove(enemy: Entity, distance: number, punishing: boolean, personality: PersonalityProfile): MoveId {
+  const inRange = (moveId: MoveId) => getFighterMove(enemy, moveId).range > distance
+
+  // Spend a full super meter on a punish, as a comeback when low, or now and then
+  const fighter = FighterComponent.getOrNull(enemy)
+  if (fighter && fighter.superMeter >= fighter.maxSuper && inRange('super')) {
+    const desperate = fighter.health < fighter.maxHealth * 0.3
+    if (punishing || desperate || Math.random() < 0.2) return 'super'
+  }
+
+  // Punishes go for max damage
+  if (punishing) {
+    if (inRange('special')) return 'special'
+    if (inRange('heavy')) return 'heavy'
+    return 'light'
+  }
+
+  // Weighted pick among the personality's moves that reach
+  const options = (Object.keys(personality.moves) as MoveId[]).filter(inRange)
+  const total = options.reduce((sum, id) => sum + (personality.moves[id] ?? 0), 0)
+  let roll = Math.random() * total
+  for (const id of options) {
+    roll -= personality.moves[id] ?? 0
+    if (roll <= 0) return id
+  }
+  return 'light'
+}
+
+/**
+ * Pick the AI's guard height - reads the attack it saw as well as its block accuracy allows, otherwise guesses
+ */
+function chooseGuardStance(seen: PlayerSnapshot | null, profile: AIProfile): string {
+  if (seen && seen.height !== '' && Math.random() < profile.blockAccuracy) {
+    if (seen.height === 'low') return 'crouching'
+    if (seen.height === 'overhead' || seen.height === 'high') return 'standing'
+  }
+  return Math.random() < 0.3 ? 'crouching' : 'standing'
+}
@@ -1,6 +1,7 @@
 import { Entity, engine, Transform, MeshRenderer, MeshCollider, GltfContainer, Animator, Material } from '@dcl/sdk/ecs'
 import { Vector3, Quaternion, Color4 } from '@dcl/sdk/math'
-import { FighterComponent, ARENA_CONFIG, GameState } from './components'
+import { FighterComponent, ARENA_CONFIG, GameState, MATCH_CONFIG, AnimationState } from './components'
+import { Character } from './menuState'
 
 let arenaEntities: Entity[] = []
 let gameStateEntity: Entity | null = null
@@ -9,11 +10,23 @@ let gameStateEntity: Entity | null = null
 const FIGHTER_ANIMATIONS = [
   { clip: 'idle', playing: true, loop: true },
   { clip: 'walk', playing: false, loop: true },
-  { clip: 'attack', playing: false, loop: false },
+  { clip: 'crouch', playing: false, loop: true },
+  { clip: 'attack', playing: false, loop: false }, // Light attack
+  { clip: 'attack2', playing: false, loop: false },
+  { clip: 'attack_heavy', playing: false, loop: false },
+  { clip: 'attack_special', playing: false, loop: false },
+  { clip: 'attack_low', playing: false, loop: false }, // Crouching attacks
+  { clip: 'attack_overhead', playing: false, loop: false },
+  { clip: 'attack_super', playing: false, loop: false },
   { clip: 'impact', playing: false, loop: false },
   { clip: 'stun', playing: false, loop: false },
   { clip: 'die', playing: false, loop: false },
-  { clip: 'block', playing: false, loop: true }
+  { clip: 'block', playing: false, loop: true },
+  { clip: 'crouch_block', playing: false, loop: true },
+  { clip: 'parry', playing: false, loop: false },
+  { clip: 'turn', playing: false, loop: false },
+  { clip: 'throw', playing: false, loop: false }, // Paired throw (attacker / defender)
+  { clip: 'thrown', playing: false, loop: false }
 ]
 
 /**
@@ -24,10 +37,15 @@ export function createGameState(): Entity {
   GameState.create(gameStateEntity, {
     isMatchActive: false, // Start inactive during countdown
     winner: '',
-    comboCount: 0,
-    lastHitTime: 0,
     roundNumber: 1,
-    countdownTimer: 3.0 // 3 seconds before fight starts
+    countdownTimer: MATCH_CONFIG.countdownTime, // 3 seconds before fight starts
+    roundsToWin: MATCH_CONFIG.roundsToWin,
+    playerRoundWins: 0,
+    enemyRoundWins: 0,
+    roundTimer: MATCH_CONFIG.roundTime,
+    roundWinner: '',
+    roundEndReason: '',
+    roundEndTimer: 0
   })
   return gameStateEntity
 }
@@ -179,12 +197,17 @@ export function removeArena(): void {
 /**
  * Create a fighter entity with model and animations
  */
-export function createFighter(modelPath: string, position: Vector3, rotation: Quaternion, isPlayer: boolean): Entity {
+export function createFighter(
+  character: Character,
+  position: Vector3,
+  rotation: Quaternion,
+  isPlayer: boolean
+): Entity {
   const entity = engine.addEntity()
 
   // Load model
   GltfContainer.create(entity, {
-    src: modelPath,
+    src: character.modelPath,
     invisibleMeshesCollisionMask: 0,
     visibleMeshesCollisionMask: 0
   })
@@ -199,24 +222,47 @@ export function createFighter(modelPath: string, position: Vector3, rotation: Qu
   // Fighter component
   FighterComponent.create(entity, {
     isPlayer: isPlayer,
-    health: 100,
-    maxHealth: 100,
-    animationTimer: 0,
+    characterId: character.id,
+    health: character.stats.health,
+    maxHealth: character.stats.health,
+    startHealth: character.stats.health,
+    walkSpeed: character.stats.walkSpeed,
+    damageMultiplier: character.stats.damage,
+    defense: character.stats.defense,
+    weight: character.stats.weight,
+    trait: character.trait,
+    traitUsed: false,
+    regenDelay: 0,
+    state: 'idle',
+    stance: 'standing',
+    stateTimer: 0,
     currentAnimation: 'idle',
+    currentMove: '',
+    moveConnected: false,
     invincibilityTimer: 0,
+    parryTimer: 0,
+    parryCooldown: 0,
     attackCooldown: 0,
-    stunTimer: 0,
-    blocking: false,
+    holdingBack: false,
+    facingRight: isPlayer, // Player starts on the left
     knockbackActive: false,
     knockbackProgress: 0,
     knockbackDirX: 0,
     knockbackDirY: 0,
-    knockbackDirZ: 0
+    knockbackDirZ: 0,
+    dashVelocityX: 0,
+    comboCount: 0,
+    comboDamage: 0,
+    guardMeter: 100,
+    maxGuard: 100,
+    guardRegenDelay: 0,
+    superMeter: 0,
+    maxSuper: 100
   })
 
-  // Animator with standard states
+  // Animator with the standard states this model has clips for
   Animator.create(entity, {
-    states: [...FIGHTER_ANIMATIONS]
+    states: FIGHTER_ANIMATIONS.filter((state) => character.clips.includes(state.clip as AnimationState))
   })
 
   console.log(`✅ ${isPlayer ? 'Player' : 'Enemy'} fighter created`)
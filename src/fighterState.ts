@@ -0,0 +1,258 @@
+/**
+ * Fighter State Machine for Fright Night
+ * One place that decides what a fighter is doing and what it may do next
+ * Flow: idle/walk/crouch/block -> startup -> active -> recovery -> idle, with hitstun/blockstun/knockdown/KO on top
+ */
+
+import { Entity, Animator } from '@dcl/sdk/ecs'
+import { FighterComponent, AnimationState } from './components'
+import { getCharacterMove } from './menuState'
+import { MoveId, framesToSeconds } from './moves'
+import { getTimeScale } from './matchClock'
+
+export type FighterState =
+  | 'idle'
+  | 'walk'
+  | 'crouch'
+  | 'block'
+  | 'dash'
+  | 'turn'
+  | 'startup'
+  | 'active'
+  | 'recovery'
+  | 'hitstun'
+  | 'blockstun'
+  | 'parry'
+  | 'guardBreak'
+  | 'throwing'
+  | 'thrown'
+  | 'knockdown'
+  | 'ko'
+
+// Getting hit, guard broken or thrown is possible from anywhere except KO
+const HIT_REACTIONS: FighterState[] = ['hitstun', 'guardBreak', 'thrown', 'knockdown', 'ko']
+
+// Allowed transitions (from -> to)
+const STATE_TRANSITIONS: Record<FighterState, FighterState[]> = {
+  idle: ['walk', 'crouch', 'block', 'dash', 'turn', 'startup', 'blockstun', 'parry', ...HIT_REACTIONS],
+  walk: ['idle', 'crouch', 'block', 'dash', 'turn', 'startup', 'blockstun', 'parry', ...HIT_REACTIONS],
+  crouch: ['idle', 'walk', 'block', 'turn', 'startup', 'blockstun', 'parry', ...HIT_REACTIONS],
+  block: ['idle', 'walk', 'crouch', 'turn', 'startup', 'blockstun', 'parry', ...HIT_REACTIONS], // Block-cancel into attack
+  dash: ['idle', ...HIT_REACTIONS],
+  turn: ['idle', ...HIT_REACTIONS],
+  startup: ['active', ...HIT_REACTIONS],
+  active: ['recovery', 'throwing', ...HIT_REACTIONS], // A connecting throw starts the paired sequence
+  recovery: ['idle', ...HIT_REACTIONS],
+  hitstun: ['idle', ...HIT_REACTIONS],
+  blockstun: ['idle', 'block', 'blockstun', 'parry', ...HIT_REACTIONS], // Block strings
+  parry: ['idle', ...HIT_REACTIONS],
+  guardBreak: ['idle', ...HIT_REACTIONS],
+  throwing: ['idle', 'recovery', ...HIT_REACTIONS],
+  thrown: ['idle', ...HIT_REACTIONS], // Broken throws go back to neutral
+  knockdown: ['idle', ...HIT_REACTIONS],
+  ko: []
+}
+
+// Where a timed state goes when its timer runs out
+const TIMED_TRANSITIONS: Partial<Record<FighterState, FighterState>> = {
+  dash: 'idle',
+  turn: 'idle',
+  startup: 'active',
+  active: 'recovery',
+  recovery: 'idle',
+  hitstun: 'idle',
+  blockstun: 'idle',
+  parry: 'idle',
+  guardBreak: 'idle',
+  knockdown: 'idle'
+}
+
+// Animation played when entering a state (attack states use the move's own clip)
+const STATE_ANIMATIONS: Partial<Record<FighterState, AnimationState>> = {
+  idle: 'idle',
+  walk: 'walk',
+  crouch: 'crouch',
+  block: 'block',
+  dash: 'walk',
+  turn: 'turn',
+  hitstun: 'impact',
+  blockstun: 'impact',
+  parry: 'parry',
+  guardBreak: 'stun',
+  throwing: 'throw',
+  thrown: 'thrown',
+  knockdown: 'impact',
+  ko: 'die'
+}
+
+// Stand-in clips for models that lack one, tried in order (idle is the last resort - every model has it)
+const CLIP_FALLBACKS: Partial<Record<AnimationState, AnimationState[]>> = {
+  attack_heavy: ['attack2', 'attack'],
+  attack_special: ['attack2', 'attack'],
+  attack_low: ['attack'],
+  attack_overhead: ['attack2', 'attack'],
+  attack_super: ['attack2', 'attack'],
+  stun: ['impact'],
+  turn: ['walk'],
+  crouch: ['idle'],
+  crouch_block: ['block', 'crouch'],
+  throw: ['attack'],
+  thrown: ['impact'],
+  parry: ['block', 'attack'] // Deflecting swing
+}
+
+/**
+ * Free to walk, crouch, block, dash, turn or start an attack
+ */
+export function canAct(state: FighterState): boolean {
+  return state === 'idle' || state === 'walk' || state === 'crouch' || state === 'block'
+}
+
+/**
+ * Able to guard an incoming hit (holding back)
+ */
+export function canGuard(state: FighterState): boolean {
+  return canAct(state) || state === 'blockstun'
+}
+
+/**
+ * Can be grabbed by a throw (not while reeling from a hit or block, or already in a throw)
+ */
+export function isThrowable(state: FighterState): boolean {
+  return canAct(state) || isAttacking(state) || state === 'dash' || state === 'turn' || state === 'guardBreak'
+}
+
+/**
+ * In the middle of an attack
+ */
+export function isAttacking(state: FighterState): boolean {
+  return state === 'startup' || state === 'active' || state === 'recovery'
+}
+
+/**
+ * Get a fighter's current state
+ */
+export function getFighterState(entity: Entity): FighterState {
+  const fighter = FighterComponent.getOrNull(entity)
+  return fighter ? (fighter.state as FighterState) : 'idle'
+}
+
+/**
+ * The clip a fighter's model will actually play for an animation (null if it has none of the stand-ins either)
+ */
+export function resolveAnimation(entity: Entity, animationName: AnimationState): AnimationState | null {
+  const animator = Animator.getOrNull(entity)
+  if (!animator) return null
+
+  const candidates: AnimationState[] = [animationName, ...(CLIP_FALLBACKS[animationName] ?? []), 'idle']
+  return candidates.find((clip) => animator.states.some((s) => s.clip === clip)) ?? null
+}
+
+/**
+ * Play animation with proper state management (missing clips use a stand-in, see CLIP_FALLBACKS)
+ */
+export function playAnimation(entity: Entity, animationName: AnimationState) {
+  const animator = Animator.getMutableOrNull(entity)
+  const fighter = FighterComponent.getMutableOrNull(entity)
+  const clip = resolveAnimation(entity, animationName)
+
+  // Nothing to play - keep whatever is running rather than freezing the model
+  if (!animator || !fighter || !clip) return
+
+  // Stop all animations first for clean transition
+  for (const state of animator.states) {
+    state.playing = false
+  }
+
+  // Play target animation
+  const targetState = animator.states.find((s) => s.clip === clip)
+  if (targetState) {
+    targetState.playing = true
+    targetState.speed = getTimeScale() // Match speed (frozen during pause / hit-stop)
+    fighter.currentAnimation = clip
+  }
+}
+
+/**
+ * Move a fighter to a new state - returns false if the transition table doesn't allow it
+ * @param duration Seconds until the state's timed transition (0 = stays until changed)
+ * @param animation Overrides the state's default animation
+ */
+export function setFighterState(
+  entity: Entity,
+  next: FighterState,
+  duration: number = 0,
+  animation?: AnimationState
+): boolean {
+  const fighter = FighterComponent.getMutableOrNull(entity)
+  if (!fighter) return false
+
+  const current = fighter.state as FighterState
+  if (!STATE_TRANSITIONS[current].includes(next)) {
+    console.log(`⚠️ Invalid state transition ${current} -> ${next}`)
+    return false
+  }
+
+  enterState(entity, next, duration, animation)
+  return true
+}
+
+/**
+ * Force a fighter back to idle (match reset - bypasses the transition table)
+ */
+export function resetFighterState(entity: Entity) {
+  enterState(entity, 'idle', 0)
+}
+
+function enterState(entity: Entity, next: FighterState, duration: number, animation?: AnimationState) {
+  const fighter = FighterComponent.getMutable(entity)
+
+  // Leaving an attack (finished or interrupted) drops the move
+  if (!isAttacking(next)) {
+    fighter.currentMove = ''
+  }
+
+  fighter.state = next
+  fighter.stateTimer = duration
+
+  // Only skip the replay when the model is already running the clip it would play (stand-ins included)
+  const wanted = animation ?? STATE_ANIMATIONS[next]
+  const clip = wanted ? resolveAnimation(entity, wanted) : null
+  if (wanted && clip !== fighter.currentAnimation) {
+    playAnimation(entity, wanted)
+  }
+}
+
+/**
+ * Length of the next attack phase, from the fighter's current move
+ */
+function getPhaseDuration(entity: Entity, state: FighterState): number {
+  const fighter = FighterComponent.getOrNull(entity)
+  if (!fighter || !fighter.currentMove) return 0
+
+  const move = getCharacterMove(fighter.characterId, fighter.currentMove as MoveId)
+  if (state === 'active') return framesToSeconds(move.active)
+  if (state === 'recovery') return framesToSeconds(move.recovery)
+  return 0
+}
+
+/**
+ * Count down the state timer and apply the timed transition
+ * Returns the state that just ended (or null if nothing changed this frame)
+ */
+export function tickFighterState(entity: Entity, dt: number): FighterState | null {
+  const fighter = FighterComponent.getMutableOrNull(entity)
+  if (!fighter) return null
+
+  const current = fighter.state as FighterState
+  const next = TIMED_TRANSITIONS[current]
+  if (!next) return null
+
+  fighter.stateTimer -= dt
+  if (fighter.stateTimer > 0) return null
+
+  // Carry the overshoot into the next phase so frame data stays exact
+  const overshoot = -fighter.stateTimer
+  enterState(entity, next, Math.max(0, getPhaseDuration(entity, next) - overshoot))
+  return current
+}
@@ -0,0 +1,269 @@
+/**
+ * Hitbox / Hurtbox / Pushbox Collision for Fright Night
+ * Hit and hurt boxes are defined in the fighter's local space (x = right, y = up, z = forward/facing)
+ * and rotated with the fighter's transform, so attacks only land in front of the attacker.
+ * Pushboxes are world-aligned footprints that keep the two bodies from overlapping.
+ */
+
+import { engine, Entity, Transform, MeshRenderer, Material, MaterialTransparencyMode } from '@dcl/sdk/ecs'
+import { Vector3, Quaternion, Color4 } from '@dcl/sdk/math'
+import { FighterComponent, ARENA_CONFIG } from './components'
+
+// Box in fighter-local space
+export type Box = {
+  offset: Vector3 // Center relative to the fighter's feet
+  size: Vector3 // Full width (x), height (y), depth (z)
+}
+
+// Box in world space (oriented around Y only)
+type WorldBox = {
+  center: Vector3
+  right: Vector3
+  forward: Vector3
+  halfSize: Vector3
+}
+
+// Standing body volume every fighter can be hit on
+export const STANDING_HURTBOX: Box = {
+  offset: Vector3.create(0, 0.9, 0),
+  size: Vector3.create(0.7, 1.8, 0.7)
+}
+
+// Crouching body volume (low enough for high attacks to pass over)
+export const CROUCHING_HURTBOX: Box = {
+  offset: Vector3.create(0, 0.5, 0),
+  size: Vector3.create(0.7, 1.0, 0.7)
+}
+
+// Body footprint used to push fighters apart (world X/Z)
+export const PUSHBOX_SIZE = { x: 0.8, z: 0.8 }
+
+const HITBOX_NEAR_EDGE = 0.2 // Hitboxes start just in front of the attacker's body
+
+// Debug render colors (translucent)
+const HURTBOX_DEBUG_COLOR = Color4.create(0.2, 0.5, 1, 0.3)
+const HITBOX_DEBUG_COLOR = Color4.create(1, 0.1, 0.1, 0.4)
+
+// Hitboxes currently in their active frames (set by the combat system)
+const activeHitboxes = new Map<Entity, Box>()
+
+// Debug cubes per fighter
+const debugEntities = new Map<Entity, { hurtbox: Entity; hitbox: Entity }>()
+let hitboxDebugEnabled = false // Flip to true (or call setHitboxDebug) to see hit/hurt boxes
+
+/**
+ * Create a hitbox that reaches `range` meters from the attacker's center
+ * (measured center-to-center, so a defender standing at `range` is just touched)
+ */
+export function createReachHitbox(range: number, height: number = 0.8, centerY: number = 1.1): Box {
+  const farEdge = Math.max(HITBOX_NEAR_EDGE + 0.1, range - STANDING_HURTBOX.size.z / 2)
+  const depth = farEdge - HITBOX_NEAR_EDGE
+  return {
+    offset: Vector3.create(0, centerY, HITBOX_NEAR_EDGE + depth / 2),
+    size: Vector3.create(0.8, height, depth)
+  }
+}
+
+/**
+ * Transform a local box into world space using the fighter's position and facing
+ */
+function toWorldBox(box: Box, entity: Entity): WorldBox | null {
+  const transform = Transform.getOrNull(entity)
+  if (!transform) return null
+
+  return {
+    center: Vector3.add(transform.position, Vector3.rotate(box.offset, transform.rotation)),
+    right: Vector3.rotate(Vector3.Right(), transform.rotation),
+    forward: Vector3.rotate(Vector3.Forward(), transform.rotation),
+    halfSize: Vector3.scale(box.size, 0.5)
+  }
+}
+
+/**
+ * Project a box's half extents onto an axis in the XZ plane
+ */
+function projectRadius(box: WorldBox, axis: Vector3): number {
+  const rightDot = Math.abs(box.right.x * axis.x + box.right.z * axis.z)
+  const forwardDot = Math.abs(box.forward.x * axis.x + box.forward.z * axis.z)
+  return rightDot * box.halfSize.x + forwardDot * box.halfSize.z
+}
+
+/**
+ * Oriented box overlap test (separating axis in XZ, interval test in Y)
+ */
+function boxesOverlap(a: WorldBox, b: WorldBox): boolean {
+  if (Math.abs(a.center.y - b.center.y) > a.halfSize.y + b.halfSize.y) return false
+
+  const delta = Vector3.subtract(b.center, a.center)
+  for (const axis of [a.right, a.forward, b.right, b.forward]) {
+    const distance = Math.abs(delta.x * axis.x + delta.z * axis.z)
+    if (distance > projectRadius(a, axis) + projectRadius(b, axis)) return false
+  }
+  return true
+}
+
+/**
+ * Get a fighter's current hurtbox (depends on stance)
+ */
+export function getHurtbox(entity: Entity): Box {
+  const fighter = FighterComponent.getOrNull(entity)
+  return fighter && fighter.stance === 'crouching' ? CROUCHING_HURTBOX : STANDING_HURTBOX
+}
+
+/**
+ * Check an attacker's hitbox against the defender's hurtbox
+ */
+export function isHitboxTouching(attacker: Entity, hitbox: Box, defender: Entity): boolean {
+  const hitWorld = toWorldBox(hitbox, attacker)
+  const hurtWorld = toWorldBox(getHurtbox(defender), defender)
+  if (!hitWorld || !hurtWorld) return false
+
+  return boxesOverlap(hitWorld, hurtWorld)
+}
+
+/**
+ * Push two fighters apart along one axis, handing the whole push to the free fighter
+ * when the other is pinned against the arena edge. Returns the new [a, b] positions.
+ */
+function separateOnAxis(a: number, b: number, required: number, min: number, max: number): [number, number] {
+  const clamp = (value: number) => Math.max(min, Math.min(max, value))
+  // Push direction (b away from a) - coincident fighters split towards the arena center
+  const dir = b !== a ? Math.sign(b - a) : a < (min + max) / 2 ? 1 : -1
+
+  const overlap = required - Math.abs(b - a)
+  let newA = clamp(a - (dir * overlap) / 2)
+  let newB = clamp(b + (dir * overlap) / 2)
+
+  // Pinned against a wall: the other fighter takes the rest of the push
+  let missing = required - (newB - newA) * dir
+  if (missing > 0) {
+    newB = clamp(newB + dir * missing)
+    missing = required - (newB - newA) * dir
+  }
+  if (missing > 0) {
+    newA = clamp(newA - dir * missing)
+  }
+  return [newA, newB]
+}
+
+/**
+ * Resolve pushbox overlap between two fighters (shallowest axis, constrained to arena)
+ */
+export function resolvePushboxes(a: Entity, b: Entity): void {
+  const transformA = Transform.getMutableOrNull(a)
+  const transformB = Transform.getMutableOrNull(b)
+  if (!transformA || !transformB) return
+
+  const posA = transformA.position
+  const posB = transformB.position
+  const overlapX = PUSHBOX_SIZE.x - Math.abs(posB.x - posA.x)
+  const overlapZ = PUSHBOX_SIZE.z - Math.abs(posB.z - posA.z)
+  if (overlapX <= 0 || overlapZ <= 0) return
+
+  if (overlapX <= overlapZ) {
+    const [newA, newB] = separateOnAxis(posA.x, posB.x, PUSHBOX_SIZE.x, ARENA_CONFIG.xMin, ARENA_CONFIG.xMax)
+    transformA.position = Vector3.create(newA, posA.y, posA.z)
+    transformB.position = Vector3.create(newB, posB.y, posB.z)
+  } else {
+    const [newA, newB] = separateOnAxis(posA.z, posB.z, PUSHBOX_SIZE.z, ARENA_CONFIG.zMin, ARENA_CONFIG.zMax)
+    transformA.position = Vector3.create(posA.x, posA.y, newA)
+    transformB.position = Vector3.create(posB.x, posB.y, newB)
+  }
+}
+
+/**
+ * Mark a fighter's hitbox as active (null when the active frames end)
+ */
+export function setActiveHitbox(entity: Entity, hitbox: Box | null): void {
+  if (hitbox) {
+    activeHitboxes.set(entity, hitbox)
+  } else {
+    activeHitboxes.delete(entity)
+  }
+}
+
+/**
+ * Clear all active hitboxes (match reset)
+ */
+export function clearActiveHitboxes(): void {
+  activeHitboxes.clear()
+}
+
+/**
+ * Toggle the translucent box debug render
+ */
+export function setHitboxDebug(enabled: boolean): void {
+  hitboxDebugEnabled = enabled
+  if (!enabled) removeDebugEntities()
+}
+
+export function isHitboxDebugEnabled(): boolean {
+  return hitboxDebugEnabled
+}
+
+function createDebugCube(color: Color4): Entity {
+  const cube = engine.addEntity()
+  Transform.create(cube, { scale: Vector3.Zero() })
+  MeshRenderer.setBox(cube)
+  Material.setPbrMaterial(cube, {
+    albedoColor: color,
+    transparencyMode: MaterialTransparencyMode.MTM_ALPHA_BLEND,
+    castShadows: false
+  })
+  return cube
+}
+
+function placeDebugCube(cube: Entity, box: Box | null, owner: Entity) {
+  const transform = Transform.getMutable(cube)
+  const ownerTransform = Transform.getOrNull(owner)
+
+  // Hidden cubes are scaled to zero
+  if (!box || !ownerTransform) {
+    transform.scale = Vector3.Zero()
+    return
+  }
+
+  transform.position = Vector3.add(ownerTransform.position, Vector3.rotate(box.offset, ownerTransform.rotation))
+  transform.rotation = Quaternion.create(
+    ownerTransform.rotation.x,
+    ownerTransform.rotation.y,
+    ownerTransform.rotation.z,
+    ownerTransform.rotation.w
+  )
+  transform.scale = box.size
+}
+
+function removeDebugEntities() {
+  for (const cubes of debugEntities.values()) {
+    engine.removeEntity(cubes.hurtbox)
+    engine.removeEntity(cubes.hitbox)
+  }
+  debugEntities.clear()
+}
+
+/**
+ * Hitbox debug system - draws hurtboxes (blue) and active hitboxes (red) as translucent cubes
+ */
+export function hitboxDebugSystem() {
+  if (!hitboxDebugEnabled) return
+
+  // Drop cubes of fighters that no longer exist
+  for (const [fighter, cubes] of debugEntities.entries()) {
+    if (!FighterComponent.has(fighter)) {
+      engine.removeEntity(cubes.hurtbox)
+      engine.removeEntity(cubes.hitbox)
+      debugEntities.delete(fighter)
+    }
+  }
+
+  for (const [entity] of engine.getEntitiesWith(FighterComponent, Transform)) {
+    let cubes = debugEntities.get(entity)
+    if (!cubes) {
+      cubes = { hurtbox: createDebugCube(HURTBOX_DEBUG_COLOR), hitbox: createDebugCube(HITBOX_DEBUG_COLOR) }
+      debugEntities.set(entity, cubes)
+    }
+
+    placeDebugCube(cubes.hurtbox, getHurtbox(entity), entity)
+    placeDebugCube(cubes.hitbox, activeHitboxes.get(entity) ?? null, entity)
+  }
+}
@@ -5,6 +5,12 @@ import { engine } from '@dcl/sdk/ecs'
 import { createMenuState } from './menuState'
 import { setupUnifiedUi } from './unifiedUi'
 import { menuFlowSystem } from './menuSystem'
+import { onAnyCombatEvent, onCombatEvent, logCombatEvent } from './combatEvents'
+import { playSuperCameraCut } from './camera'
+import { recordMatchStat } from './matchStats'
+import { recordPlayerHabit } from './playerHabits'
+import { recordSurvivalResult } from './survivalMode'
+import { showHitCallout, showTraitCallout } from './ui'
 
 export function main() {
   console.log('🥊 FRIGHT NIGHT - Fighting Game Starting...')
@@ -21,6 +27,23 @@ export function main() {
   engine.addSystem(menuFlowSystem)
   console.log('✅ Menu flow system registered')
 
+  // 4. Log combat events (hits, blocks, KOs, rounds) to the console
+  onAnyCombatEvent(logCombatEvent)
+
+  // 5. Super moves cut to a cinematic close-up
+  onCombatEvent('super', (event) => playSuperCameraCut(event.attacker))
+
+  // 6. Match stats and HUD callouts (counter-hits, punishes, traits)
+  onAnyCombatEvent(recordMatchStat)
+  onCombatEvent('hit', showHitCallout)
+  onCombatEvent('trait', showTraitCallout)
+
+  // 7. Enemy AI learns the player's habits over a match
+  onAnyCombatEvent(recordPlayerHabit)
+
+  // 8. Survival wins are banked as soon as the match ends
+  onCombatEvent('matchEnd', recordSurvivalResult)
+
   console.log('')
   console.log('🎮 TITLE SCREEN READY!')
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
@@ -0,0 +1,219 @@
+/**
+ * Input Buffer for Fright Night
+ * Keeps a short input history per fighter so presses made during recovery/stun still come out,
+ * and recognises motion commands (double-tap dash, quarter-circle, charge)
+ *
+ * Directions use numpad notation relative to the opponent:
+ *   7 8 9
+ *   4 5 6   (6 = forward / towards the opponent, 4 = back, 2 = down)
+ *   1 2 3
+ */
+
+import { Entity, InputAction, inputSystem } from '@dcl/sdk/ecs'
+
+// Buffer timings (seconds)
+const INPUT_BUFFER_WINDOW = 0.15 // How long a press waits for the fighter to act (~9 frames, cooldown tail excluded)
+const MOTION_WINDOW = 0.4 // Max time to complete a quarter-circle
+const DOUBLE_MOTION_WINDOW = 0.7 // Max time to complete two quarter-circles (super)
+const DASH_WINDOW = 0.25 // Max time between the two taps of a dash
+const CHARGE_TIME = 0.75 // Hold back this long to store a charge
+const HISTORY_LENGTH = 1.0 // Direction history kept for motion parsing
+
+export type ButtonId = 'light' | 'heavy' | 'special' | 'throw'
+export type MotionId = 'quarterCircleForward' | 'doubleQuarterCircleForward' | 'charge'
+export type CommandKind = ButtonId | 'dashForward' | 'dashBack'
+
+const ATTACK_BUTTONS: CommandKind[] = ['light', 'heavy', 'special', 'throw']
+
+// A buffered command waiting to be consumed
+export type BufferedCommand = {
+  kind: CommandKind
+  motion: MotionId | null // Motion completed before the button (attacks only)
+  age: number // Seconds since it was entered
+}
+
+type DirectionEntry = {
+  direction: number
+  age: number // Seconds since this direction was entered
+}
+
+type InputHistory = {
+  directions: DirectionEntry[]
+  commands: BufferedCommand[]
+  heldButtons: Set<InputAction>
+  backHeldTime: number // How long back has been held (charge)
+  chargeReleaseAge: number // Seconds since a stored charge was released forward (-1 = none)
+}
+
+// Attack buttons (E stays on light attack, number keys pick the attack)
+const BUTTON_INPUTS: { action: InputAction; button: ButtonId }[] = [
+  { action: InputAction.IA_PRIMARY, button: 'light' }, // E key
+  { action: InputAction.IA_ACTION_3, button: 'light' }, // 1 key
+  { action: InputAction.IA_ACTION_4, button: 'heavy' }, // 2 key
+  { action: InputAction.IA_ACTION_5, button: 'special' }, // 3 key
+  { action: InputAction.IA_ACTION_6, button: 'throw' } // 4 key
+]
+
+const histories = new Map<Entity, InputHistory>()
+
+function getHistory(entity: Entity): InputHistory {
+  let history = histories.get(entity)
+  if (!history) {
+    history = {
+      directions: [{ direction: 5, age: 0 }],
+      commands: [],
+      heldButtons: new Set(),
+      backHeldTime: 0,
+      chargeReleaseAge: -1
+    }
+    histories.set(entity, history)
+  }
+  return history
+}
+
+/**
+ * Read the current stick direction (numpad notation) relative to the opponent
+ */
+function readDirection(facingRight: boolean): number {
+  const right = inputSystem.isPressed(InputAction.IA_RIGHT) ? 1 : 0 // D key
+  const left = inputSystem.isPressed(InputAction.IA_LEFT) ? 1 : 0 // A key
+  const up = inputSystem.isPressed(InputAction.IA_FORWARD) ? 1 : 0 // W key
+  const down = inputSystem.isPressed(InputAction.IA_BACKWARD) ? 1 : 0 // S key
+
+  const horizontal = (right - left) * (facingRight ? 1 : -1)
+  const vertical = up - down
+  return 5 + horizontal + vertical * 3
+}
+
+function isBack(direction: number): boolean {
+  return direction === 1 || direction === 4 || direction === 7
+}
+
+/**
+ * Check the direction history for a double tap (tap, neutral, tap) ending this frame
+ */
+function isDoubleTap(directions: DirectionEntry[], direction: number): boolean {
+  const count = directions.length
+  if (count < 3) return false
+
+  const [first, neutral, second] = directions.slice(count - 3)
+  return (
+    second.direction === direction &&
+    neutral.direction === 5 &&
+    first.direction === direction &&
+    first.age <= DASH_WINDOW
+  )
+}
+
+/**
+ * Check the direction history for down, down-forward, forward (in order, within the motion window)
+ */
+function isQuarterCircleForward(directions: DirectionEntry[]): boolean {
+  return isMotion(directions, [2, 3, 6], MOTION_WINDOW)
+}
+
+/**
+ * Two quarter-circles forward in a row (super motion)
+ */
+function isDoubleQuarterCircleForward(directions: DirectionEntry[]): boolean {
+  return isMotion(directions, [2, 3, 6, 2, 3, 6], DOUBLE_MOTION_WINDOW)
+}
+
+/**
+ * Check the direction history for a sequence of directions (in order, within the window)
+ */
+function isMotion(directions: DirectionEntry[], sequence: number[], window: number): boolean {
+  let step = 0
+
+  for (const entry of directions) {
+    if (entry.age > window) continue
+    if (entry.direction === sequence[step]) step++
+    if (step === sequence.length) return true
+  }
+  return false
+}
+
+/**
+ * Record this frame's input for a fighter (call every frame, even while the fighter can't act)
+ * @param attacksOnHold Recovery is over but the attack cooldown hasn't cleared - buffered attacks wait without ageing
+ */
+export function recordFighterInput(entity: Entity, facingRight: boolean, dt: number, attacksOnHold: boolean): void {
+  const history = getHistory(entity)
+
+  // Age everything and drop stale entries
+  for (const entry of history.directions) entry.age += dt
+  for (const command of history.commands) {
+    if (!attacksOnHold || !ATTACK_BUTTONS.includes(command.kind)) command.age += dt
+  }
+  history.commands = history.commands.filter((c) => c.age <= INPUT_BUFFER_WINDOW)
+  while (history.directions.length > 1 && history.directions[1].age > HISTORY_LENGTH) {
+    history.directions.shift()
+  }
+  if (history.chargeReleaseAge >= 0) {
+    history.chargeReleaseAge += dt
+    if (history.chargeReleaseAge > MOTION_WINDOW) history.chargeReleaseAge = -1
+  }
+
+  // Directions - only changes are recorded
+  const direction = readDirection(facingRight)
+  const lastDirection = history.directions[history.directions.length - 1].direction
+
+  if (direction !== lastDirection) {
+    history.directions.push({ direction, age: 0 })
+
+    // Releasing a stored charge towards the opponent
+    if (isBack(lastDirection) && direction === 6 && history.backHeldTime >= CHARGE_TIME) {
+      history.chargeReleaseAge = 0
+    }
+
+    if (isDoubleTap(history.directions, 6)) {
+      history.commands.push({ kind: 'dashForward', motion: null, age: 0 })
+    } else if (isDoubleTap(history.directions, 4)) {
+      history.commands.push({ kind: 'dashBack', motion: null, age: 0 })
+    }
+  }
+
+  history.backHeldTime = isBack(direction) ? history.backHeldTime + dt : 0
+
+  // Buttons - only fresh presses are recorded
+  for (const input of BUTTON_INPUTS) {
+    const pressed = inputSystem.isPressed(input.action)
+    const wasHeld = history.heldButtons.has(input.action)
+
+    if (pressed && !wasHeld) {
+      let motion: MotionId | null = null
+      if (history.chargeReleaseAge >= 0) {
+        motion = 'charge'
+        history.chargeReleaseAge = -1
+      } else if (isDoubleQuarterCircleForward(history.directions)) {
+        motion = 'doubleQuarterCircleForward'
+      } else if (isQuarterCircleForward(history.directions)) {
+        motion = 'quarterCircleForward'
+      }
+      history.commands.push({ kind: input.button, motion, age: 0 })
+    }
+
+    if (pressed) history.heldButtons.add(input.action)
+    else history.heldButtons.delete(input.action)
+  }
+}
+
+/**
+ * Take the oldest buffered command of the given kinds (removes it from the buffer)
+ */
+export function consumeBufferedCommand(entity: Entity, kinds: CommandKind[]): BufferedCommand | null {
+  const history = histories.get(entity)
+  if (!history) return null
+
+  const index = history.commands.findIndex((c) => kinds.includes(c.kind))
+  if (index < 0) return null
+
+  return history.commands.splice(index, 1)[0]
+}
+
+/**
+ * Clear all input history (new match / round)
+ */
+export function clearInputBuffers(): void {
+  histories.clear()
+}
@@ -0,0 +1,115 @@
+/**
+ * Match Clock for Fright Night
+ * Single clock for all combat timing - game systems read the scaled frame delta from here instead of
+ * the raw dt, so pause, slow motion and hit-stop stretch every timer (and fighter animation) together
+ */
+
+import { engine, Animator } from '@dcl/sdk/ecs'
+import { FighterComponent } from './components'
+
+let matchTime = 0 // Scaled seconds since the clock was reset
+let frameDelta = 0 // Scaled delta for the current frame
+let paused = false
+let timeScale = 1 // Slow motion (1 = normal speed)
+let slowMotionTimer = 0 // Real seconds of slow motion left (0 = until changed)
+let hitStopTimer = 0 // Real seconds of hit-stop left (clock frozen)
+let animationSpeed = 1 // Speed last applied to fighter animators
+
+/**
+ * Match clock system - must run before every system that reads getMatchDelta()
+ */
+export function matchClockSystem(dt: number) {
+  if (paused) {
+    frameDelta = 0
+    syncAnimationSpeed()
+    return
+  }
+
+  // Hit-stop and timed slow motion count down in real time
+  if (hitStopTimer > 0) {
+    hitStopTimer = Math.max(0, hitStopTimer - dt)
+  } else if (slowMotionTimer > 0) {
+    slowMotionTimer -= dt
+    if (slowMotionTimer <= 0) {
+      slowMotionTimer = 0
+      timeScale = 1
+    }
+  }
+
+  frameDelta = dt * getTimeScale()
+  matchTime += frameDelta
+  syncAnimationSpeed()
+}
+
+/**
+ * Scaled delta for this frame (0 while paused or in hit-stop)
+ */
+export function getMatchDelta(): number {
+  return frameDelta
+}
+
+/**
+ * Scaled seconds since the clock was reset
+ */
+export function getMatchTime(): number {
+  return matchTime
+}
+
+/**
+ * Current speed of the match (0 = frozen, 1 = normal)
+ */
+export function getTimeScale(): number {
+  if (paused || hitStopTimer > 0) return 0
+  return timeScale
+}
+
+export function setMatchPaused(value: boolean): void {
+  paused = value
+}
+
+export function isMatchPaused(): boolean {
+  return paused
+}
+
+/**
+ * Slow the match down (scale < 1) - for `duration` real seconds, or until changed when 0
+ */
+export function setSlowMotion(scale: number, duration: number = 0): void {
+  timeScale = Math.max(0, scale)
+  slowMotionTimer = duration
+}
+
+/**
+ * Freeze the match for a few frames on impact (overlapping hit-stops don't stack)
+ */
+export function triggerHitStop(duration: number): void {
+  hitStopTimer = Math.max(hitStopTimer, duration)
+}
+
+/**
+ * Reset the clock (new battle / match restart)
+ */
+export function resetMatchClock(): void {
+  matchTime = 0
+  frameDelta = 0
+  paused = false
+  timeScale = 1
+  slowMotionTimer = 0
+  hitStopTimer = 0
+  syncAnimationSpeed()
+}
+
+/**
+ * Play fighter animations at match speed (frozen on pause and hit-stop)
+ */
+function syncAnimationSpeed() {
+  const speed = getTimeScale()
+  if (speed === animationSpeed) return
+
+  animationSpeed = speed
+  for (const [entity] of engine.getEntitiesWith(FighterComponent, Animator)) {
+    for (const state of Animator.getMutable(entity).states) {
+      state.speed = speed
+    }
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Match Stats for Fright Night
+ * Per-side counters for the current match, built from combat events (shown on the match-over screen)
+ */
+
+import { CombatEvent, FighterSide } from './combatEvents'
+
+export type FighterStats = {
+  hits: number
+  damage: number
+  counterHits: number // Hits during the opponent's startup / active frames
+  punishes: number // Hits during the opponent's recovery
+  maxCombo: number
+  blocks: number // Hits this side blocked
+  parries: number
+  throws: number // Throws that landed (a broken grab doesn't count)
+}
+
+function createStats(): FighterStats {
+  return { hits: 0, damage: 0, counterHits: 0, punishes: 0, maxCombo: 0, blocks: 0, parries: 0, throws: 0 }
+}
+
+const stats: Record<FighterSide, FighterStats> = {
+  player: createStats(),
+  enemy: createStats()
+}
+
+function otherSide(side: FighterSide): FighterSide {
+  return side === 'player' ? 'enemy' : 'player'
+}
+
+/**
+ * Stats for one side of the current match
+ */
+export function getMatchStats(side: FighterSide): FighterStats {
+  return stats[side]
+}
+
+export function resetMatchStats(): void {
+  stats.player = createStats()
+  stats.enemy = createStats()
+}
+
+/**
+ * Combat event subscriber (registered at startup) - a new match starts from round 1
+ */
+export function recordMatchStat(event: CombatEvent): void {
+  switch (event.type) {
+    case 'roundStart':
+      if (event.roundNumber === 1) resetMatchStats()
+      break
+    case 'hit': {
+      const attacker = stats[event.attackerSide]
+      attacker.hits++
+      attacker.damage += event.damage
+      attacker.maxCombo = Math.max(attacker.maxCombo, event.comboCount)
+      if (event.hitType === 'counter') attacker.counterHits++
+      if (event.hitType === 'punish') attacker.punishes++
+      break
+    }
+    case 'block':
+      stats[otherSide(event.attackerSide)].blocks++
+      break
+    case 'parry':
+      stats[otherSide(event.attackerSide)].parries++
+      break
+    case 'throw':
+      stats[event.attackerSide].throws++
+      break
+    case 'throwTech':
+      stats[event.attackerSide].throws-- // Counted on the grab, taken back when the defender breaks it
+      break
+  }
+}
@@ -1,23 +1,93 @@
 /**
  * Menu State Management for Fright Night
  * Tracks game flow: Title -> Character Select -> Stage Select -> Loading -> Battle
+ * Arcade: Title -> Character Select -> Ladder -> Loading -> Battle -> Ladder ... -> Ending (or Continue -> Game Over)
+ * Survival: Title -> Character Select -> Loading -> Battle -> Battle ... (new opponents in the same arena)
  */
 
 import { engine, Entity } from '@dcl/sdk/ecs'
 import { Schemas } from '@dcl/sdk/ecs'
+import {
+  MoveData,
+  MoveId,
+  BASE_MOVES,
+  EXECUTIONER_MOVES,
+  UNDEAD_KNIGHT_MOVES,
+  OLIGAR_MOVES,
+  CAPTAIN_TREWS_MOVES,
+  ANTROM_GAURD_MOVES,
+  WASTELANDER_MOVES,
+  DEMON_KING_MOVES,
+  MORGANITE_MOVES,
+  AGIES_MOVES
+} from './moves'
+import { AnimationState } from './components'
 
-export type MenuScreen = 'title' | 'characterSelect' | 'stageSelect' | 'loading' | 'battle'
+export type MenuScreen =
+  | 'title'
+  | 'characterSelect'
+  | 'stageSelect'
+  | 'loading'
+  | 'battle'
+  | 'arcadeLadder' // Next opponent on the arcade ladder
+  | 'arcadeContinue' // Lost an arcade fight - continue countdown
+  | 'arcadeGameOver'
+  | 'arcadeEnding' // Beat the final boss
+
+export type GameMode = 'vs' | 'arcade' | 'survival'
 
 export type CharacterId = 'bandit' | 'goblin' | 'char3' | 'char4' | 'char5' | 'char6' | 'char7' | 'char8' | 'char9'
 export type StageId = 'space' | 'creepy'
 
+// One passive trait per character (applied in the combat systems)
+export type CharacterTrait =
+  | 'headsman'
+  | 'undying'
+  | 'gildedGuard'
+  | 'plunder'
+  | 'bulwark'
+  | 'fleetFoot'
+  | 'lifesteal'
+  | 'rockSkin'
+  | 'regeneration'
+
+// How the CPU plays this character (behaviour tables in enemyAI.ts)
+export type AIPersonality = 'balanced' | 'zoner' | 'rushdown' | 'turtle' | 'grappler'
+
+// Base stats - multipliers are 1 for an average fighter
+export interface CharacterStats {
+  health: number // Max HP
+  walkSpeed: number // Meters per second
+  damage: number // Outgoing damage multiplier
+  defense: number // Incoming damage is divided by this (above 1 = tankier)
+  weight: number // Knockback distance is divided by this (heavier = pushed less)
+}
+
 // Character data structure
 export interface Character {
   id: CharacterId
   name: string
   modelPath: string
+  clips: AnimationState[] // Animation clips the model actually has (others fall back, see fighterState.ts)
   portraitPath: string // Placeholder for now
   available: boolean
+  moves: MoveData[] // Move list with frame data (see moves.ts)
+  stats: CharacterStats
+  trait: CharacterTrait
+  aiPersonality: AIPersonality
+}
+
+// Trait names and descriptions (move list)
+export const TRAITS: Record<CharacterTrait, { name: string; description: string }> = {
+  headsman: { name: 'Headsman', description: '+25% damage against opponents below 30% health' },
+  undying: { name: 'Undying', description: 'Survives the first lethal hit of each round with 1 HP' },
+  gildedGuard: { name: 'Gilded Guard', description: 'Blocking drains half as much guard meter' },
+  plunder: { name: 'Plunder', description: 'Builds super meter 50% faster' },
+  bulwark: { name: 'Bulwark', description: 'Takes no chip damage through blocks' },
+  fleetFoot: { name: 'Fleet Foot', description: 'Dashes and backdashes travel 30% further' },
+  lifesteal: { name: 'Soul Feast', description: 'Heals 15% of the damage dealt by hits' },
+  rockSkin: { name: 'Rock Skin', description: 'The first hit taken each round is armored - half damage, no flinch' },
+  regeneration: { name: 'Regrowth', description: 'Slowly regenerates health after a few seconds without being hit' }
 }
 
 // Stage data structure
@@ -28,70 +98,118 @@ export interface Stage {
   previewPath: string // Placeholder for now
 }
 
+// Clips every shipped fighter model has
+const BASE_CLIPS: AnimationState[] = ['idle', 'walk', 'attack', 'impact', 'die']
+
 // Available characters (9 total - Mortal Kombat 3x3 grid)
 export const CHARACTERS: Character[] = [
   {
     id: 'bandit',
     name: 'EXECUTIONER',
     modelPath: 'models/bandit.glb',
+    clips: BASE_CLIPS,
     portraitPath: 'images/portraits/1.jpg',
-    available: true
+    available: true,
+    moves: EXECUTIONER_MOVES,
+    stats: { health: 100, walkSpeed: 4.0, damage: 1.0, defense: 1.0, weight: 1.0 },
+    trait: 'headsman',
+    aiPersonality: 'balanced'
   },
   {
     id: 'goblin',
     name: 'UNDEAD KNIGHT',
     modelPath: 'models/goblin.glb',
+    clips: BASE_CLIPS,
     portraitPath: 'images/portraits/4.jpg',
-    available: true
+    available: true,
+    moves: UNDEAD_KNIGHT_MOVES,
+    stats: { health: 90, walkSpeed: 4.4, damage: 0.95, defense: 0.95, weight: 0.9 },
+    trait: 'undying',
+    aiPersonality: 'rushdown'
   },
   {
     id: 'char3',
     name: 'OLIGAR',
     modelPath: 'models/Oligar.glb',
+    clips: BASE_CLIPS,
     portraitPath: 'images/portraits/6.jpg',
-    available: true
+    available: true,
+    moves: OLIGAR_MOVES,
+    stats: { health: 115, walkSpeed: 3.4, damage: 1.1, defense: 1.05, weight: 1.3 },
+    trait: 'gildedGuard',
+    aiPersonality: 'turtle'
   },
   {
     id: 'char4',
     name: 'CAPTAIN TREWS',
     modelPath: 'models/darkknight.glb',
+    clips: BASE_CLIPS,
     portraitPath: 'images/portraits/2.jpg',
-    available: true
+    available: true,
+    moves: CAPTAIN_TREWS_MOVES,
+    stats: { health: 100, walkSpeed: 4.0, damage: 1.0, defense: 1.0, weight: 1.0 },
+    trait: 'plunder',
+    aiPersonality: 'zoner'
   },
   {
     id: 'char5',
     name: 'ANTROM GAURD',
     modelPath: 'models/knightsword.glb',
+    clips: [...BASE_CLIPS, 'attack2'],
     portraitPath: 'images/portraits/5.jpg',
-    available: true
+    available: true,
+    moves: ANTROM_GAURD_MOVES,
+    stats: { health: 110, walkSpeed: 3.6, damage: 0.95, defense: 1.1, weight: 1.2 },
+    trait: 'bulwark',
+    aiPersonality: 'turtle'
   },
   {
     id: 'char6',
     name: 'WASTELANDER',
     modelPath: 'models/desertnpcm.glb',
+    clips: BASE_CLIPS,
     portraitPath: 'images/portraits/3.jpg',
-    available: true
+    available: true,
+    moves: WASTELANDER_MOVES,
+    stats: { health: 90, walkSpeed: 4.6, damage: 0.95, defense: 0.95, weight: 0.85 },
+    trait: 'fleetFoot',
+    aiPersonality: 'rushdown'
   },
   {
     id: 'char7',
     name: 'DEMON KING',
     modelPath: 'models/undeadking.glb',
+    clips: BASE_CLIPS,
     portraitPath: 'images/portraits/9.jpg',
-    available: true
+    available: true,
+    moves: DEMON_KING_MOVES,
+    stats: { health: 110, walkSpeed: 3.8, damage: 1.1, defense: 1.05, weight: 1.2 },
+    trait: 'lifesteal',
+    aiPersonality: 'rushdown'
   },
   {
     id: 'char8',
     name: 'MORGANITE',
     modelPath: 'models/rockmonster.glb',
+    clips: BASE_CLIPS,
     portraitPath: 'images/portraits/7.jpg',
-    available: true
+    available: true,
+    moves: MORGANITE_MOVES,
+    stats: { health: 130, walkSpeed: 3.0, damage: 1.15, defense: 1.15, weight: 1.6 },
+    trait: 'rockSkin',
+    aiPersonality: 'grappler'
   },
   {
     id: 'char9',
     name: 'AGIES',
     modelPath: 'models/treemonster.glb',
+    clips: ['idle', 'attack', 'impact', 'die'], // No walk cycle
     portraitPath: 'images/portraits/8.jpg',
-    available: true
+    available: true,
+    moves: AGIES_MOVES,
+    stats: { health: 105, walkSpeed: 3.6, damage: 0.9, defense: 1.0, weight: 1.3 },
+    trait: 'regeneration',
+    aiPersonality: 'zoner'
   }
 ]
 
@@ -118,7 +236,17 @@ export const MenuStateComponent = engine.defineComponent('menu::state', {
   enemyCharacterId: Schemas.String,
   stageId: Schemas.String,
   selectingPlayer: Schemas.Boolean, // true = player picking, false = enemy picking
-  loadingTimer: Schemas.Number // Timer for loading screen (2 seconds)
+  loadingTimer: Schemas.Number, // Timer for loading screen (2 seconds)
+  aiDifficulty: Schemas.String, // Enemy AI preset (see aiDifficulty.ts)
+  gameMode: Schemas.String, // GameMode
+  arcadeLadder: Schemas.Array(Schemas.String), // Opponent character IDs, final boss last (see arcadeMode.ts)
+  arcadeRung: Schemas.Number, // Index of the current ladder fight
+  arcadeDifficulty: Schemas.String, // AI preset for the current ladder fight ('' outside arcade)
+  arcadeContinues: Schemas.Number, // Continues left this run
+  continueTimer: Schemas.Number, // Seconds left on the continue countdown
+  survivalStreak: Schemas.Number, // Survival fights won this run
+  survivalBest: Schemas.Number, // Best survival streak this session
+  survivalHealth: Schemas.Number // Player health carried into the next survival fight
 })
 
 let menuStateEntity: Entity | null = null
@@ -134,7 +262,17 @@ export function createMenuState(): Entity {
     enemyCharacterId: '',
     stageId: '',
     selectingPlayer: true,
-    loadingTimer: 0
+    loadingTimer: 0,
+    aiDifficulty: 'normal',
+    gameMode: 'vs',
+    arcadeLadder: [],
+    arcadeRung: 0,
+    arcadeDifficulty: '',
+    arcadeContinues: 0,
+    continueTimer: 0,
+    survivalStreak: 0,
+    survivalBest: 0,
+    survivalHealth: 0
   })
   console.log('✅ Menu state initialized')
   return menuStateEntity
@@ -160,3 +298,11 @@ export function getCharacterById(id: CharacterId): Character | undefined {
 export function getStageById(id: StageId): Stage | undefined {
   return STAGES.find((s) => s.id === id)
 }
+
+/**
+ * Get a character's move (falls back to the base move)
+ */
+export function getCharacterMove(characterId: string, moveId: MoveId): MoveData {
+  const character = getCharacterById(characterId as CharacterId)
+  return character?.moves.find((m) => m.id === moveId) ?? BASE_MOVES[moveId]
+}
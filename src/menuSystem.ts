@@ -4,23 +4,32 @@
 
 import { engine, Entity } from '@dcl/sdk/ecs'
 import { Vector3, Quaternion } from '@dcl/sdk/math'
-import { MenuStateComponent, getMenuState, getCharacterById, getStageById } from './menuState'
+import { MenuStateComponent, MenuScreen, Character, getMenuState, getCharacterById, getStageById } from './menuState'
 import { createArena, createFighter, createGameState, removeArena, resetGameState, getGameState } from './factory'
-import { setupLockedCamera } from './camera'
+import { setupLockedCamera, cameraCutSystem } from './camera'
 import {
   setupInputs,
   playerMovementSystem,
-  enemyAISystem,
   unifiedTimerSystem,
   facingSystem,
   gameStateSystem,
-  setFighterEntities
+  pushboxSystem,
+  setFighterEntities,
+  resetMatch
 } from './systems'
+import { enemyAISystem } from './enemyAI'
+import { matchClockSystem, resetMatchClock } from './matchClock'
+import { pauseInputSystem } from './pauseMenu'
 import { ARENA_CONFIG } from './components'
 import { lockAvatar } from './avatarLock'
+import { clearInputBuffers } from './inputBuffer'
+import { hitboxDebugSystem } from './hitboxes'
+import { arcadeContinueSystem, getArcadeOpponent, resetArcadeRun } from './arcadeMode'
+import { isSurvivalRun, prepareSurvivalFight } from './survivalMode'
 
 let battleInitialized = false
 let systemsRegistered = false // Track if systems are already added
+let arenaReady = false // Arena, camera and avatar lock are up (survival swaps opponents into it)
 let playerFighterEntity: Entity | null = null
 let enemyFighterEntity: Entity | null = null
 
@@ -46,6 +55,9 @@ export function menuFlowSystem(dt: number) {
     }
   }
 
+  // Arcade continue countdown
+  arcadeContinueSystem(dt)
+
   // Initialize battle when screen changes to 'battle'
   if (menuState.currentScreen === 'battle' && !battleInitialized) {
     initializeBattle(menuState.playerCharacterId, menuState.enemyCharacterId, menuState.stageId)
@@ -55,6 +67,7 @@ export function menuFlowSystem(dt: number) {
 
 /**
  * Initialize the battle with selected characters and stage
+ * If the arena is already up (survival's next fight) only the enemy is swapped in
  */
 function initializeBattle(playerCharId: string, enemyCharId: string, stageId: string) {
   console.log('🥊 Initializing battle...')
@@ -62,25 +75,10 @@ function initializeBattle(playerCharId: string, enemyCharId: string, stageId: st
   console.log(`  Enemy: ${enemyCharId}`)
   console.log(`  Stage: ${stageId}`)
 
-  // Clean up old entities from previous match
-  if (playerFighterEntity) {
-    engine.removeEntity(playerFighterEntity)
-    playerFighterEntity = null
-  }
-  if (enemyFighterEntity) {
-    engine.removeEntity(enemyFighterEntity)
-    enemyFighterEntity = null
-  }
-  removeArena()
-  const oldGameState = getGameState()
-  if (oldGameState) {
-    engine.removeEntity(oldGameState)
-    resetGameState()
-  }
-
-  // Get character data
+  // Get character data (the arcade boss fights with boosted stats)
   const playerChar = getCharacterById(playerCharId as any)
-  const enemyChar = getCharacterById(enemyCharId as any)
+  const baseEnemyChar = getCharacterById(enemyCharId as any)
+  const enemyChar = baseEnemyChar ? getArcadeOpponent(baseEnemyChar) : undefined
   const stage = getStageById(stageId as any)
 
   if (!playerChar || !enemyChar || !stage) {
@@ -88,6 +86,46 @@ function initializeBattle(playerCharId: string, enemyCharId: string, stageId: st
     return
   }
 
+  if (arenaReady && playerFighterEntity) {
+    swapEnemy(playerFighterEntity, enemyChar)
+  } else {
+    setupBattle(playerChar, enemyChar, stage.skyboxFolder, stage.name)
+  }
+
+  // Register game systems (only once!)
+  if (!systemsRegistered) {
+    engine.addSystem(pauseInputSystem)
+    engine.addSystem(matchClockSystem) // Before the game systems - they all read its scaled delta
+    engine.addSystem(gameStateSystem)
+    engine.addSystem(unifiedTimerSystem)
+    engine.addSystem(playerMovementSystem)
+    engine.addSystem(enemyAISystem)
+    engine.addSystem(pushboxSystem)
+    engine.addSystem(facingSystem)
+    engine.addSystem(hitboxDebugSystem)
+    engine.addSystem(cameraCutSystem)
+    systemsRegistered = true
+    console.log('✅ Game systems registered')
+  } else {
+    console.log('✅ Game systems already registered (reusing)')
+  }
+
+  // Survival - single round, carried-over health
+  if (isSurvivalRun() && playerFighterEntity) {
+    prepareSurvivalFight(playerFighterEntity)
+  }
+
+  console.log('⚔️ BATTLE START!')
+}
+
+/**
+ * Build a battle from scratch - arena, camera, both fighters and avatar lock
+ */
+function setupBattle(playerChar: Character, enemyChar: Character, skyboxFolder: string, stageName: string) {
+  // Clean up old entities from previous match
+  clearBattle()
+  clearInputBuffers()
+
   // Setup input system
   setupInputs()
   console.log('✅ Input system initialized')
@@ -97,8 +135,8 @@ function initializeBattle(playerCharId: string, enemyCharId: string, stageId: st
   console.log('✅ Game state initialized')
 
   // Create arena with selected stage skybox
-  createArena(stage.skyboxFolder)
-  console.log(`✅ Arena created (Stage: ${stage.name})`)
+  createArena(skyboxFolder)
+  console.log(`✅ Arena created (Stage: ${stageName})`)
 
   // Setup camera
   setupLockedCamera()
@@ -106,20 +144,14 @@ function initializeBattle(playerCharId: string, enemyCharId: string, stageId: st
 
   // Spawn fighters
   playerFighterEntity = createFighter(
-    playerChar.modelPath,
+    playerChar,
     Vector3.create(ARENA_CONFIG.player.x, ARENA_CONFIG.player.y, ARENA_CONFIG.player.z),
     Quaternion.fromEulerDegrees(0, 90, 0),
     true
   )
   console.log(`✅ ${playerChar.name} spawned`)
 
-  enemyFighterEntity = createFighter(
-    enemyChar.modelPath,
-    Vector3.create(ARENA_CONFIG.enemy.x, ARENA_CONFIG.enemy.y, ARENA_CONFIG.enemy.z),
-    Quaternion.fromEulerDegrees(0, -90, 0),
-    false
-  )
-  console.log(`✅ ${enemyChar.name} spawned`)
+  enemyFighterEntity = spawnEnemy(enemyChar)
 
   // Link fighters
   setFighterEntities(playerFighterEntity, enemyFighterEntity)
@@ -129,29 +161,48 @@ function initializeBattle(playerCharId: string, enemyCharId: string, stageId: st
   lockAvatar()
   console.log('✅ Avatar locked')
 
-  // Register game systems (only once!)
-  if (!systemsRegistered) {
-    engine.addSystem(gameStateSystem)
-    engine.addSystem(unifiedTimerSystem)
-    engine.addSystem(playerMovementSystem)
-    engine.addSystem(enemyAISystem)
-    engine.addSystem(facingSystem)
-    systemsRegistered = true
-    console.log('✅ Game systems registered')
-  } else {
-    console.log('✅ Game systems already registered (reusing)')
+  arenaReady = true
+}
+
+/**
+ * Replace the enemy in the current arena and start a fresh match against it
+ */
+function swapEnemy(player: Entity, enemyChar: Character) {
+  if (enemyFighterEntity) {
+    engine.removeEntity(enemyFighterEntity)
   }
+  enemyFighterEntity = spawnEnemy(enemyChar)
+  setFighterEntities(player, enemyFighterEntity)
+  resetMatch() // Clock, fighters and countdown back to round 1
+  console.log('✅ Enemy swapped in (arena kept)')
+}
 
-  console.log('⚔️ BATTLE START!')
+function spawnEnemy(enemyChar: Character): Entity {
+  const entity = createFighter(
+    enemyChar,
+    Vector3.create(ARENA_CONFIG.enemy.x, ARENA_CONFIG.enemy.y, ARENA_CONFIG.enemy.z),
+    Quaternion.fromEulerDegrees(0, -90, 0),
+    false
+  )
+  console.log(`✅ ${enemyChar.name} spawned`)
+  return entity
 }
 
 /**
- * Reset battle and return to menu
+ * Next survival fight - the menu state already holds the new opponent
  */
-export function returnToMainMenu() {
-  console.log('🔙 Returning to main menu...')
+export function startNextSurvivalFight() {
+  const menuStateEntity = getMenuState()
+  const menuState = menuStateEntity ? MenuStateComponent.getOrNull(menuStateEntity) : null
+  if (!menuState) return
 
-  // Clean up visible entities
+  initializeBattle(menuState.playerCharacterId, menuState.enemyCharacterId, menuState.stageId)
+}
+
+/**
+ * Remove the fighters, arena and game state of the current battle
+ */
+function clearBattle() {
   if (playerFighterEntity) {
     engine.removeEntity(playerFighterEntity)
     playerFighterEntity = null
@@ -161,12 +212,39 @@ export function returnToMainMenu() {
     enemyFighterEntity = null
   }
   removeArena()
+  resetMatchClock() // Also clears pause
+  arenaReady = false
 
   const oldGameState = getGameState()
   if (oldGameState) {
     engine.removeEntity(oldGameState)
     resetGameState()
   }
+}
+
+/**
+ * Leave the battle for another menu screen (arcade ladder, continue, ending)
+ */
+export function leaveBattle(screen: MenuScreen) {
+  clearBattle()
+  battleInitialized = false
+
+  const menuStateEntity = getMenuState()
+  if (menuStateEntity) {
+    MenuStateComponent.getMutable(menuStateEntity).currentScreen = screen
+  }
+  console.log(`🔙 Leaving battle for ${screen}`)
+}
+
+/**
+ * Reset battle and return to menu
+ */
+export function returnToMainMenu() {
+  console.log('🔙 Returning to main menu...')
+
+  // Clean up visible entities
+  clearBattle()
+  resetArcadeRun()
 
   // Reset menu state to show title
   const menuStateEntity = getMenuState()
@@ -178,6 +256,8 @@ export function returnToMainMenu() {
     menuState.stageId = ''
     menuState.selectingPlayer = true
     menuState.loadingTimer = 0
+    menuState.gameMode = 'vs'
+    menuState.survivalStreak = 0
   }
 
   // Reset battle flag
@@ -1,6 +1,8 @@
 /**
  * Menu UI for Fright Night - Mortal Kombat inspired
  * Flow: Title -> Character Select (Player) -> Character Select (Enemy) -> Stage Select -> Loading -> Battle
+ * Arcade: Title -> Character Select (Player) -> Ladder -> Loading -> Battle -> ... -> Ending / Continue / Game Over
+ * Survival: Title -> Character Select (Player) -> Loading -> Battle (endless)
  */
 
 import { Color4 } from '@dcl/sdk/math'
@@ -15,6 +17,20 @@ import {
   CharacterId,
   StageId
 } from './menuState'
+import { getAIProfile, cycleAIDifficulty, AI_DIFFICULTIES } from './aiDifficulty'
+import {
+  isArcadeRun,
+  selectArcadeMode,
+  startArcadeRun,
+  startArcadeFight,
+  getArcadeProgress,
+  getLadderCharacters,
+  getNextFightDifficulty,
+  acceptArcadeContinue,
+  declineArcadeContinue,
+} from './arcadeMode'
+import { isSurvivalRun, selectSurvivalMode, startSurvivalRun } from './survivalMode'
+import { returnToMainMenu } from './menuSystem'
 
 export function setupMenuUi() {
   ReactEcsRenderer.setUiRenderer(menuUiComponent)
@@ -34,12 +50,16 @@ export const menuUiComponent = () => {
       {currentScreen === 'characterSelect' && <CharacterSelectScreen />}
       {currentScreen === 'stageSelect' && <StageSelectScreen />}
       {currentScreen === 'loading' && <LoadingScreen />}
+      {currentScreen === 'arcadeLadder' && <ArcadeLadderScreen />}
+      {currentScreen === 'arcadeContinue' && <ArcadeContinueScreen />}
+      {currentScreen === 'arcadeGameOver' && <ArcadeGameOverScreen />}
+      {currentScreen === 'arcadeEnding' && <ArcadeEndingScreen />}
     </UiEntity>
   )
 }
 
 /**
- * Title Screen - Arcade Mode / VS Mode
+ * Title Screen - Arcade Mode / VS Mode / Survival Mode
  */
 const TitleScreen = () => {
   const handleVSMode = () => {
@@ -53,7 +73,7 @@ const TitleScreen = () => {
   }
 
   const handleArcadeMode = () => {
-    console.log('⚠️ Arcade Mode - Coming Soon!')
+    selectArcadeMode()
   }
 
   return (
@@ -101,12 +121,22 @@ const TitleScreen = () => {
         onMouseDown={handleArcadeMode}
       />
 
-      {/* Coming Soon Label for Arcade */}
-      <Label
-        value="(Arcade Mode - Coming Soon)"
-        fontSize={14}
-        color={Color4.Gray()}
-        uiTransform={{ width: '100%', height: 30 }}
+      {/* Survival Mode Button */}
+      <Button
+        value="SURVIVAL MODE"
+        variant="secondary"
+        fontSize={28}
+        uiTransform={{ width: 400, height: 70, margin: { bottom: 20 } }}
+        onMouseDown={() => selectSurvivalMode()}
+      />
+
+      {/* AI Difficulty (cycles Easy -> Nightmare) */}
+      <Button
+        value={`AI DIFFICULTY: ${getAIProfile().name}`}
+        variant="secondary"
+        fontSize={20}
+        uiTransform={{ width: 400, height: 50 }}
+        onMouseDown={() => cycleAIDifficulty()}
       />
     </UiEntity>
   )
@@ -134,6 +164,20 @@ const CharacterSelectScreen = () => {
       return
     }
 
+    // Arcade - only the player picks, the ladder picks the opponents
+    if (isArcadeRun()) {
+      console.log(`✅ Player selected: ${character.name}`)
+      startArcadeRun(charId)
+      return
+    }
+
+    // Survival - opponents are random
+    if (isSurvivalRun()) {
+      console.log(`✅ Player selected: ${character.name}`)
+      startSurvivalRun(charId)
+      return
+    }
+
     const state = MenuStateComponent.getMutable(menuStateEntity)
     
     if (state.selectingPlayer) {
@@ -393,3 +437,233 @@ const LoadingScreen = () => {
   )
 }
 
+
+/**
+ * Arcade Ladder Screen - the run so far and the next opponent
+ */
+const ArcadeLadderScreen = () => {
+  const ladder = getLadderCharacters()
+  const progress = getArcadeProgress()
+  const next = ladder[progress.rung]
+
+  return (
+    <UiEntity
+      uiTransform={{
+        width: '100%',
+        height: '100%',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+      uiBackground={{ color: Color4.create(0, 0, 0, 0.95) }}
+    >
+      <Label
+        value={progress.bossFight ? 'FINAL BATTLE' : `ARCADE - FIGHT ${progress.rung + 1} / ${progress.fights}`}
+        fontSize={48}
+        color={progress.bossFight ? Color4.Red() : Color4.Yellow()}
+        uiTransform={{ width: '100%', height: 80, margin: { bottom: 20 } }}
+      />
+
+      {/* Ladder - boss at the top */}
+      <UiEntity uiTransform={{ width: 500, flexDirection: 'column', alignItems: 'center', margin: { bottom: 20 } }}>
+        {[...ladder].reverse().map((character, i) => {
+          const rung = ladder.length - 1 - i
+          return (
+            <Label
+              value={`${rung + 1}. ${character.name}${rung === ladder.length - 1 ? ' (BOSS)' : ''}${rung < progress.rung ? ' - DEFEATED' : ''}`}
+              fontSize={rung === progress.rung ? 24 : 18}
+              color={rung === progress.rung ? Color4.Yellow() : rung < progress.rung ? Color4.Gray() : Color4.White()}
+              uiTransform={{ width: '100%', height: 36 }}
+            />
+          )
+        })}
+      </UiEntity>
+
+      {next && (
+        <UiEntity
+          uiTransform={{ width: 280, height: 190, margin: { bottom: 20 } }}
+          uiBackground={{
+            textureMode: 'stretch',
+            texture: { src: next.portraitPath },
+            color: Color4.White(),
+          }}
+        />
+      )}
+
+      <Label
+        value={`Next: ${next ? next.name : '?'} | AI: ${AI_DIFFICULTIES[getNextFightDifficulty()].name} | Continues: ${progress.continues}`}
+        fontSize={18}
+        color={Color4.White()}
+        uiTransform={{ width: '100%', height: 30, margin: { bottom: 20 } }}
+      />
+
+      <Button
+        value="FIGHT!"
+        variant="primary"
+        fontSize={28}
+        uiTransform={{ width: 400, height: 70, margin: { bottom: 15 } }}
+        onMouseDown={() => startArcadeFight()}
+      />
+      <Button
+        value="QUIT TO TITLE"
+        variant="secondary"
+        fontSize={16}
+        uiTransform={{ width: 300, height: 40 }}
+        onMouseDown={() => returnToMainMenu()}
+      />
+    </UiEntity>
+  )
+}
+
+/**
+ * Arcade Continue Screen - countdown to retry the lost fight
+ */
+const ArcadeContinueScreen = () => {
+  const menuStateEntity = getMenuState()
+  const menuState = menuStateEntity ? MenuStateComponent.getOrNull(menuStateEntity) : null
+  if (!menuState) return null
+
+  return (
+    <UiEntity
+      uiTransform={{
+        width: '100%',
+        height: '100%',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+      uiBackground={{ color: Color4.create(0, 0, 0, 0.95) }}
+    >
+      <Label
+        value="CONTINUE?"
+        fontSize={64}
+        color={Color4.Red()}
+        uiTransform={{ width: '100%', height: 100 }}
+      />
+      <Label
+        value={`${Math.ceil(menuState.continueTimer)}`}
+        fontSize={96}
+        color={Color4.Yellow()}
+        uiTransform={{ width: '100%', height: 130 }}
+      />
+      <Label
+        value={`Continues left: ${getArcadeProgress().continues}`}
+        fontSize={20}
+        color={Color4.White()}
+        uiTransform={{ width: '100%', height: 40, margin: { bottom: 20 } }}
+      />
+      <Button
+        value="YES - RETRY"
+        variant="primary"
+        fontSize={24}
+        uiTransform={{ width: 300, height: 60, margin: { bottom: 15 } }}
+        onMouseDown={() => acceptArcadeContinue()}
+      />
+      <Button
+        value="NO"
+        variant="secondary"
+        fontSize={18}
+        uiTransform={{ width: 300, height: 45 }}
+        onMouseDown={() => declineArcadeContinue()}
+      />
+    </UiEntity>
+  )
+}
+
+/**
+ * Arcade Game Over Screen
+ */
+const ArcadeGameOverScreen = () => {
+  const progress = getArcadeProgress()
+
+  return (
+    <UiEntity
+      uiTransform={{
+        width: '100%',
+        height: '100%',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+      uiBackground={{ color: Color4.create(0, 0, 0, 1) }}
+    >
+      <Label
+        value="GAME OVER"
+        fontSize={72}
+        color={Color4.Red()}
+        uiTransform={{ width: '100%', height: 110, margin: { bottom: 20 } }}
+      />
+      <Label
+        value={`Reached fight ${progress.rung + 1} of ${progress.fights}`}
+        fontSize={24}
+        color={Color4.White()}
+        uiTransform={{ width: '100%', height: 40, margin: { bottom: 40 } }}
+      />
+      <Button
+        value="MAIN MENU"
+        variant="primary"
+        fontSize={22}
+        uiTransform={{ width: 300, height: 55 }}
+        onMouseDown={() => returnToMainMenu()}
+      />
+    </UiEntity>
+  )
+}
+
+/**
+ * Arcade Ending Card - the boss is down
+ */
+const ArcadeEndingScreen = () => {
+  const menuStateEntity = getMenuState()
+  const menuState = menuStateEntity ? MenuStateComponent.getOrNull(menuStateEntity) : null
+  const champion = menuState ? CHARACTERS.find(c => c.id === menuState.playerCharacterId) : undefined
+
+  return (
+    <UiEntity
+      uiTransform={{
+        width: '100%',
+        height: '100%',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+      uiBackground={{ color: Color4.create(0, 0, 0, 0.95) }}
+    >
+      <Label
+        value="👑 CHAMPION 👑"
+        fontSize={64}
+        color={Color4.Yellow()}
+        uiTransform={{ width: '100%', height: 100, margin: { bottom: 20 } }}
+      />
+      {champion && (
+        <UiEntity
+          uiTransform={{ width: 420, height: 285, margin: { bottom: 20 } }}
+          uiBackground={{
+            textureMode: 'stretch',
+            texture: { src: champion.portraitPath },
+            color: Color4.White(),
+          }}
+        />
+      )}
+      <Label
+        value={`${champion ? champion.name : 'YOUR FIGHTER'} has cast down the DEMON KING.`}
+        fontSize={24}
+        color={Color4.White()}
+        uiTransform={{ width: '100%', height: 40 }}
+      />
+      <Label
+        value="The night is over... for now."
+        fontSize={20}
+        color={Color4.Gray()}
+        uiTransform={{ width: '100%', height: 40, margin: { bottom: 30 } }}
+      />
+      <Button
+        value="MAIN MENU"
+        variant="primary"
+        fontSize={22}
+        uiTransform={{ width: 300, height: 55 }}
+        onMouseDown={() => returnToMainMenu()}
+      />
+    </UiEntity>
+  )
+}
@@ -0,0 +1,315 @@
+/**
+ * Move Data for Fright Night
+ * Frame data for every character's attacks (frames are 1/60s, like classic fighters)
+ */
+
+import { AnimationState } from './components'
+import { Box, createReachHitbox } from './hitboxes'
+
+export const FRAMES_PER_SECOND = 60
+
+export type MoveId = 'light' | 'heavy' | 'special' | 'crouchLight' | 'crouchHeavy' | 'overhead' | 'throw' | 'super'
+
+// Where an attack hits: highs whiff on crouchers, lows must be blocked crouching, overheads standing,
+// throws can't be blocked at all (only broken)
+export type AttackHeight = 'high' | 'mid' | 'low' | 'overhead' | 'throw'
+
+// Move data structure
+export interface MoveData {
+  id: MoveId
+  name: string
+  animation: AnimationState
+  height: AttackHeight
+  startup: number // Frames before the hit can connect
+  active: number // Frames the hit can connect
+  recovery: number // Frames after active before the attacker can act again
+  cooldown: number // Seconds before the fighter can attack again (never shorter than the move, cut to its end on hit)
+  damage: number // Damage on hit
+  chipDamage: number // Damage through a block
+  guardDamage: number // Guard meter drained on block
+  hitstun: number // Frames the defender is stunned on hit
+  blockstun: number // Frames the defender is stunned on block
+  range: number // Reach in meters (center to center, used for AI spacing)
+  hitbox: Box // Attack volume in front of the attacker (built from range unless given)
+}
+
+// Per-character tweaks on top of the base moves
+type MoveSetOverrides = { [K in MoveId]?: Partial<MoveData> }
+
+/**
+ * Convert frames to seconds
+ */
+export function framesToSeconds(frames: number): number {
+  return frames / FRAMES_PER_SECOND
+}
+
+/**
+ * Total move duration in seconds (startup + active + recovery)
+ */
+export function getMoveDuration(move: MoveData): number {
+  return framesToSeconds(move.startup + move.active + move.recovery)
+}
+
+// Base moves every character builds on (also used as fallback)
+export const BASE_MOVES: Record<MoveId, MoveData> = {
+  // Light - fast poke, low reward
+  light: {
+    id: 'light',
+    name: 'Jab',
+    animation: 'attack',
+    height: 'high',
+    startup: 10,
+    active: 4,
+    recovery: 12,
+    cooldown: 0.5,
+    damage: 8,
+    chipDamage: 3,
+    guardDamage: 8,
+    hitstun: 30, // Outlasts the rest of the move plus another light's startup, so lights link on hit
+    blockstun: 12,
+    range: 1.8,
+    hitbox: createReachHitbox(1.8, 0.6, 1.3)
+  },
+  // Heavy - the original 0.8s / 15 damage attack
+  heavy: {
+    id: 'heavy',
+    name: 'Strike',
+    animation: 'attack_heavy',
+    height: 'mid',
+    startup: 24,
+    active: 6,
+    recovery: 18,
+    cooldown: 0.9,
+    damage: 15,
+    chipDamage: 7.5,
+    guardDamage: 18,
+    hitstun: 30,
+    blockstun: 18,
+    range: 2.0,
+    hitbox: createReachHitbox(2.0)
+  },
+  // Special - slow, long reach, big damage
+  special: {
+    id: 'special',
+    name: 'Special',
+    animation: 'attack_special',
+    height: 'mid',
+    startup: 30,
+    active: 8,
+    recovery: 28,
+    cooldown: 1.5,
+    damage: 22,
+    chipDamage: 9,
+    guardDamage: 26,
+    hitstun: 38,
+    blockstun: 24,
+    range: 2.6,
+    hitbox: createReachHitbox(2.6, 1.2, 1.0)
+  },
+  // Crouching light (down + light) - quick low poke
+  crouchLight: {
+    id: 'crouchLight',
+    name: 'Low Jab',
+    animation: 'attack_low',
+    height: 'low',
+    startup: 9,
+    active: 3,
+    recovery: 12,
+    cooldown: 0.5,
+    damage: 6,
+    chipDamage: 2,
+    guardDamage: 8,
+    hitstun: 27, // Links like the standing light
+    blockstun: 10,
+    range: 1.6,
+    hitbox: createReachHitbox(1.6, 0.5, 0.3)
+  },
+  // Crouching heavy (down + heavy) - slow low sweep, unsafe on block
+  crouchHeavy: {
+    id: 'crouchHeavy',
+    name: 'Sweep',
+    animation: 'attack_low',
+    height: 'low',
+    startup: 20,
+    active: 5,
+    recovery: 26,
+    cooldown: 1.0,
+    damage: 13,
+    chipDamage: 5,
+    guardDamage: 16,
+    hitstun: 30,
+    blockstun: 16,
+    range: 2.0,
+    hitbox: createReachHitbox(2.0, 0.5, 0.3)
+  },
+  // Overhead (forward + heavy) - slow enough to react to, beats crouch-blocking
+  overhead: {
+    id: 'overhead',
+    name: 'Overhead',
+    animation: 'attack_overhead',
+    height: 'overhead',
+    startup: 28,
+    active: 5,
+    recovery: 20,
+    cooldown: 1.1,
+    damage: 14,
+    chipDamage: 6,
+    guardDamage: 16,
+    hitstun: 28,
+    blockstun: 16,
+    range: 1.9,
+    hitbox: createReachHitbox(1.9, 1.0, 1.2)
+  },
+  // Throw - close range grab that goes through blocks, long whiff recovery
+  throw: {
+    id: 'throw',
+    name: 'Throw',
+    animation: 'throw',
+    height: 'throw',
+    startup: 5,
+    active: 3,
+    recovery: 28,
+    cooldown: 0.8,
+    damage: 14,
+    chipDamage: 0,
+    guardDamage: 0,
+    hitstun: 40, // Knockdown after the slam
+    blockstun: 0,
+    range: 1.2,
+    hitbox: createReachHitbox(1.2, 1.4, 0.8)
+  },
+  // Super - spends a full super meter, the cinematic freeze hides most of the startup
+  super: {
+    id: 'super',
+    name: 'Super',
+    animation: 'attack_super',
+    height: 'mid',
+    startup: 10,
+    active: 10,
+    recovery: 40,
+    cooldown: 1.5,
+    damage: 35,
+    chipDamage: 12,
+    guardDamage: 40,
+    hitstun: 50,
+    blockstun: 30,
+    range: 2.6,
+    hitbox: createReachHitbox(2.6, 1.4, 1.0)
+  }
+}
+
+/**
+ * Build a character's move list from the base moves
+ */
+function createMoveSet(overrides: MoveSetOverrides): MoveData[] {
+  return (Object.keys(BASE_MOVES) as MoveId[]).map((id) => {
+    const base = BASE_MOVES[id]
+    const override = overrides[id] ?? {}
+    const move: MoveData = { ...base, ...override, id }
+
+    // Longer/shorter reach stretches the base hitbox unless the character gives its own
+    if (override.range !== undefined && !override.hitbox) {
+      move.hitbox = createReachHitbox(move.range, base.hitbox.size.y, base.hitbox.offset.y)
+    }
+    return move
+  })
+}
+
+// EXECUTIONER - Balanced all-rounder
+export const EXECUTIONER_MOVES = createMoveSet({
+  light: { name: 'Haft Jab' },
+  heavy: { name: 'Axe Chop' },
+  special: { name: 'Beheading Swing' },
+  super: { name: 'Final Execution' }
+})
+
+// UNDEAD KNIGHT - Fast, light hits
+export const UNDEAD_KNIGHT_MOVES = createMoveSet({
+  light: { name: 'Bone Flick', startup: 8, recovery: 10, damage: 7 },
+  heavy: { name: 'Rusted Slash', startup: 16, recovery: 14, damage: 11, chipDamage: 5, hitstun: 24 },
+  special: { name: 'Grave Lunge', startup: 24, damage: 18, range: 2.8 },
+  super: { name: 'Danse Macabre', startup: 8, damage: 30, range: 2.8 }
+})
+
+// OLIGAR - Slow, heavy swings
+export const OLIGAR_MOVES = createMoveSet({
+  light: { name: 'Ring Backhand', startup: 12, damage: 10 },
+  heavy: {
+    name: 'Gold Hammer',
+    startup: 30,
+    recovery: 24,
+    cooldown: 1.1,
+    damage: 20,
+    chipDamage: 10,
+    guardDamage: 24,
+    hitstun: 34
+  },
+  special: { name: 'Tax Collector', startup: 36, damage: 28, chipDamage: 12 },
+  super: { name: 'Golden Avalanche', startup: 14, damage: 42, chipDamage: 15 }
+})
+
+// CAPTAIN TREWS - Long reach
+export const CAPTAIN_TREWS_MOVES = createMoveSet({
+  light: { name: 'Hilt Bash', range: 2.0 },
+  heavy: { name: 'Cutlass Thrust', startup: 22, active: 5, damage: 13, chipDamage: 6, range: 2.4 },
+  special: { name: 'Broadside', range: 3.0 },
+  super: { name: 'Full Broadside', range: 3.4 }
+})
+
+// ANTROM GAURD - Safe on block
+export const ANTROM_GAURD_MOVES = createMoveSet({
+  light: { name: 'Gauntlet Jab', blockstun: 16 },
+  heavy: { name: 'Shield Sweep', recovery: 12, damage: 13, chipDamage: 5, blockstun: 22 },
+  special: { name: 'Bulwark Charge', recovery: 20, damage: 18, blockstun: 30 },
+  super: { name: 'Siege Breaker', recovery: 28, guardDamage: 60 }
+})
+
+// WASTELANDER - Quick jabs, short range
+export const WASTELANDER_MOVES = createMoveSet({
+  light: { name: 'Scrap Jab', startup: 7, recovery: 10, cooldown: 0.4, damage: 6, range: 1.6 },
+  heavy: { name: 'Pipe Swing', startup: 14, active: 4, recovery: 16, damage: 10, hitstun: 22, range: 1.8 },
+  special: { name: 'Sand Storm', startup: 22, damage: 16, range: 2.2 },
+  super: { name: 'Dust Devil', startup: 8, active: 14, damage: 30 }
+})
+
+// DEMON KING - Heavy damage, wide active windows
+export const DEMON_KING_MOVES = createMoveSet({
+  light: { name: 'Claw Swipe', active: 6, damage: 9 },
+  heavy: { name: 'Hellfire Claw', startup: 26, active: 8, recovery: 22, damage: 18, chipDamage: 9 },
+  special: { name: 'Infernal Crown', active: 12, damage: 26, chipDamage: 11 },
+  super: { name: 'Hellfire Throne', active: 14, damage: 40, chipDamage: 15 }
+})
+
+// MORGANITE - Very slow, crushing blows
+export const MORGANITE_MOVES = createMoveSet({
+  light: { name: 'Pebble Punch', startup: 14, damage: 11, hitstun: 34 }, // Slow startup still links
+  heavy: {
+    name: 'Boulder Fist',
+    startup: 34,
+    recovery: 28,
+    cooldown: 1.2,
+    damage: 24,
+    chipDamage: 12,
+    guardDamage: 28,
+    hitstun: 38,
+    blockstun: 24
+  },
+  special: {
+    name: 'Landslide',
+    startup: 40,
+    recovery: 34,
+    cooldown: 1.8,
+    damage: 32,
+    chipDamage: 14,
+    guardDamage: 34
+  },
+  super: { name: 'Mountain Fall', startup: 16, recovery: 48, damage: 45, chipDamage: 16 }
+})
+
+// AGIES - Long branches, low damage
+export const AGIES_MOVES = createMoveSet({
+  light: { name: 'Twig Whip', damage: 6, range: 2.2 },
+  heavy: { name: 'Root Lash', startup: 26, damage: 12, chipDamage: 6, hitstun: 26, range: 2.6 },
+  special: { name: 'Overgrowth', damage: 18, range: 3.2 },
+  super: { name: 'World Tree', damage: 30, range: 3.6 }
+})
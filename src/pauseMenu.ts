@@ -0,0 +1,64 @@
+/**
+ * Pause Menu for Fright Night
+ * Space (or the HUD pause button) freezes the match clock - every game system and fighter animation
+ * stops until Resume. The overlay itself lives in pauseUi.tsx.
+ */
+
+import { inputSystem, InputAction } from '@dcl/sdk/ecs'
+import { GameState } from './components'
+import { getGameState } from './factory'
+import { isMatchPaused, setMatchPaused } from './matchClock'
+
+export type PausePanel = 'main' | 'moveList' | 'settings'
+
+let pausePanel: PausePanel = 'main'
+let pauseHeld = false // Edge detection for the pause key
+
+/**
+ * Pausing is only allowed mid-round (not on the round result or KO screen)
+ */
+function canPause(): boolean {
+  const gameStateEntity = getGameState()
+  const gameState = gameStateEntity ? GameState.getOrNull(gameStateEntity) : null
+  return !!gameState && gameState.winner === '' && gameState.roundWinner === ''
+}
+
+export function pauseMatch(): void {
+  if (isMatchPaused() || !canPause()) return
+  setMatchPaused(true)
+  pausePanel = 'main'
+  console.log('⏸️ Match paused')
+}
+
+export function resumeMatch(): void {
+  if (!isMatchPaused()) return
+  setMatchPaused(false)
+  console.log('▶️ Match resumed')
+}
+
+export function togglePause(): void {
+  if (isMatchPaused()) {
+    resumeMatch()
+  } else {
+    pauseMatch()
+  }
+}
+
+export function getPausePanel(): PausePanel {
+  return pausePanel
+}
+
+export function setPausePanel(panel: PausePanel): void {
+  pausePanel = panel
+}
+
+/**
+ * Pause input system - Space toggles pause (runs on real time, before the match clock)
+ */
+export function pauseInputSystem() {
+  const pressed = inputSystem.isPressed(InputAction.IA_JUMP) // Space
+  if (pressed && !pauseHeld) {
+    togglePause()
+  }
+  pauseHeld = pressed
+}
@@ -0,0 +1,218 @@
+/**
+ * Pause Overlay - Resume / Restart Round / Move List / Settings / Quit
+ */
+
+import { Color4 } from '@dcl/sdk/math'
+import ReactEcs, { Label, UiEntity, Button } from '@dcl/sdk/react-ecs'
+import { FighterComponent } from './components'
+import { getPlayerEntity, restartRound } from './systems'
+import { returnToMainMenu } from './menuSystem'
+import { getCharacterById, CharacterId, TRAITS } from './menuState'
+import { MoveId } from './moves'
+import { isHitboxDebugEnabled, setHitboxDebug } from './hitboxes'
+import { isMatchPaused } from './matchClock'
+import { getPausePanel, setPausePanel, resumeMatch } from './pauseMenu'
+import { getAIProfile, cycleAIDifficulty } from './aiDifficulty'
+import { isArcadeRun } from './arcadeMode'
+
+// Buttons shown in the move list
+const MOVE_INPUTS: Record<MoveId, string> = {
+  light: 'E / 1',
+  heavy: '2 (or charge back, forward + attack)',
+  special: '3 (or down, down-forward, forward + attack)',
+  crouchLight: 'S + E / 1',
+  crouchHeavy: 'S + 2',
+  overhead: 'Forward + 2',
+  throw: '4 (close, unblockable - press 4 when grabbed to break)',
+  super: 'Down, Down-Forward, Forward x2 + attack (full super meter)',
+}
+
+export const PauseOverlay = () => {
+  if (!isMatchPaused()) return null
+
+  const panel = getPausePanel()
+
+  return (
+    <UiEntity
+      uiTransform={{
+        width: '100%',
+        height: '100%',
+        position: { top: 0, left: 0 },
+        positionType: 'absolute',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+      uiBackground={{ color: Color4.create(0, 0, 0, 0.8) }}
+    >
+      <Label
+        value="PAUSED"
+        fontSize={64}
+        color={Color4.Yellow()}
+        uiTransform={{ width: '100%', height: 100, margin: { bottom: 20 } }}
+      />
+      {panel === 'main' && <PauseMainPanel />}
+      {panel === 'moveList' && <MoveListPanel />}
+      {panel === 'settings' && <SettingsPanel />}
+    </UiEntity>
+  )
+}
+
+/**
+ * Main pause options
+ */
+const PauseMainPanel = () => {
+  return (
+    <UiEntity uiTransform={{ width: 400, flexDirection: 'column', alignItems: 'center' }}>
+      <Button
+        value="RESUME"
+        variant="primary"
+        fontSize={22}
+        uiTransform={{ width: 300, height: 50, margin: { bottom: 12 } }}
+        onMouseDown={() => resumeMatch()}
+      />
+      <Button
+        value="RESTART ROUND"
+        variant="secondary"
+        fontSize={18}
+        uiTransform={{ width: 300, height: 45, margin: { bottom: 12 } }}
+        onMouseDown={() => restartRound()}
+      />
+      <Button
+        value="MOVE LIST"
+        variant="secondary"
+        fontSize={18}
+        uiTransform={{ width: 300, height: 45, margin: { bottom: 12 } }}
+        onMouseDown={() => setPausePanel('moveList')}
+      />
+      <Button
+        value="SETTINGS"
+        variant="secondary"
+        fontSize={18}
+        uiTransform={{ width: 300, height: 45, margin: { bottom: 12 } }}
+        onMouseDown={() => setPausePanel('settings')}
+      />
+      <Button
+        value="QUIT TO MENU"
+        variant="secondary"
+        fontSize={18}
+        uiTransform={{ width: 300, height: 45 }}
+        onMouseDown={() => {
+          console.log('🔙 Quitting to main menu')
+          returnToMainMenu()
+        }}
+      />
+      <Label
+        value="Space - Resume"
+        fontSize={14}
+        color={Color4.Gray()}
+        uiTransform={{ width: '100%', height: 30, margin: { top: 10 } }}
+      />
+    </UiEntity>
+  )
+}
+
+/**
+ * Move list with frame data for the player's character
+ */
+const MoveListPanel = () => {
+  const playerEntity = getPlayerEntity()
+  const playerFighter = playerEntity ? FighterComponent.getOrNull(playerEntity) : null
+  const character = playerFighter ? getCharacterById(playerFighter.characterId as CharacterId) : undefined
+
+  return (
+    <UiEntity
+      uiTransform={{ width: 700, flexDirection: 'column', alignItems: 'center', padding: 20 }}
+      uiBackground={{ color: Color4.create(0.1, 0.1, 0.1, 0.9) }}
+    >
+      <Label
+        value={character ? `${character.name} - MOVE LIST` : 'MOVE LIST'}
+        fontSize={24}
+        color={Color4.White()}
+        uiTransform={{ width: '100%', height: 40, margin: { bottom: 10 } }}
+      />
+      {character && (
+        <Label
+          value={`${character.stats.health} HP | Trait: ${TRAITS[character.trait].name} - ${TRAITS[character.trait].description}`}
+          fontSize={14}
+          color={Color4.create(0.6, 0.9, 1, 1)}
+          uiTransform={{ width: '100%', height: 25, margin: { bottom: 10 } }}
+        />
+      )}
+      {(character ? character.moves : []).map((move) => (
+        <UiEntity uiTransform={{ width: '100%', height: 60, flexDirection: 'column' }}>
+          <Label
+            value={`${move.name}  -  ${MOVE_INPUTS[move.id]}`}
+            fontSize={18}
+            color={Color4.Yellow()}
+            uiTransform={{ width: '100%', height: 30 }}
+          />
+          <Label
+            value={`Damage ${move.damage} | Startup ${move.startup}f | Active ${move.active}f | Recovery ${move.recovery}f`}
+            fontSize={14}
+            color={Color4.Gray()}
+            uiTransform={{ width: '100%', height: 25 }}
+          />
+        </UiEntity>
+      ))}
+      <Label
+        value="Forward, Forward - Dash | Back, Back - Backdash | F or hold Back - Block (hold S to block low)"
+        fontSize={14}
+        color={Color4.White()}
+        uiTransform={{ width: '100%', height: 30, margin: { top: 10 } }}
+      />
+      <Button
+        value="BACK"
+        variant="secondary"
+        fontSize={16}
+        uiTransform={{ width: 200, height: 40, margin: { top: 15 } }}
+        onMouseDown={() => setPausePanel('main')}
+      />
+    </UiEntity>
+  )
+}
+
+/**
+ * Settings
+ */
+const SettingsPanel = () => {
+  const hitboxesShown = isHitboxDebugEnabled()
+
+  return (
+    <UiEntity
+      uiTransform={{ width: 500, flexDirection: 'column', alignItems: 'center', padding: 20 }}
+      uiBackground={{ color: Color4.create(0.1, 0.1, 0.1, 0.9) }}
+    >
+      <Label
+        value="SETTINGS"
+        fontSize={24}
+        color={Color4.White()}
+        uiTransform={{ width: '100%', height: 40, margin: { bottom: 10 } }}
+      />
+      <Button
+        value={`SHOW HITBOXES: ${hitboxesShown ? 'ON' : 'OFF'}`}
+        variant="secondary"
+        fontSize={18}
+        uiTransform={{ width: 320, height: 45 }}
+        onMouseDown={() => setHitboxDebug(!hitboxesShown)}
+      />
+      {/* Arcade fights use the ladder's difficulty */}
+      {!isArcadeRun() && (
+        <Button
+          value={`AI DIFFICULTY: ${getAIProfile().name}`}
+          variant="secondary"
+          fontSize={18}
+          uiTransform={{ width: 320, height: 45, margin: { top: 12 } }}
+          onMouseDown={() => cycleAIDifficulty()}
+        />
+      )}
+      <Button
+        value="BACK"
+        variant="secondary"
+        fontSize={16}
+        uiTransform={{ width: 200, height: 40, margin: { top: 15 } }}
+        onMouseDown={() => setPausePanel('main')}
+      />
+    </UiEntity>
+  )
+}
@@ -0,0 +1,173 @@
+/**
+ * Player Habits for Fright Night
+ * Running model of the player's tendencies over a match - opening attacks, blocking after a whiff and the range
+ * they attack from. Counts build up during a round and the enemy AI (src/enemyAI.ts) only adapts to them
+ * at the next round start, so it reads a habit rather than reacting to it.
+ */
+
+import { Entity } from '@dcl/sdk/ecs'
+import { FighterComponent } from './components'
+import { CombatEvent } from './combatEvents'
+import { getFighterState, canAct, FighterState } from './fighterState'
+import { getMatchTime } from './matchClock'
+
+const HABIT_OPENING_WINDOW = 1.0 // Seconds after "FIGHT!" that count as an opening attack
+const HABIT_WHIFF_WINDOW = 0.5 // Seconds after a whiff's recovery ends to see whether the player guards
+
+// What the AI has learned (null = not seen yet)
+export type PlayerHabits = {
+  openingAttackRate: number | null // Share of rounds the player attacked straight after the countdown
+  blockAfterWhiffRate: number | null // Share of whiffs the player followed by guarding
+  preferredRange: number | null // Average distance the player starts attacks from
+}
+
+// Raw counts for the current match
+let openingRounds = 0
+let openingAttacks = 0
+let whiffs = 0
+let whiffBlocks = 0
+let rangeTotal = 0
+let rangeSamples = 0
+
+// Watches in progress
+let lastRoundNumber = 0
+let roundStartTime = 0
+let watchingOpening = false
+let openedRound = false // Player attacked straight after this round's countdown
+let whiffPending = false // Player whiffed and is still recovering
+let whiffWatchStart = -1 // Match time the whiff's recovery ended (-1 = not watching)
+let lastWhiffRecovery = -1 // Match time the player's latest whiff finished recovering
+let lastState: FighterState = 'idle'
+
+let learned: PlayerHabits = createHabits()
+
+function createHabits(): PlayerHabits {
+  return { openingAttackRate: null, blockAfterWhiffRate: null, preferredRange: null }
+}
+
+function resetPlayerHabits(): void {
+  openingRounds = 0
+  openingAttacks = 0
+  whiffs = 0
+  whiffBlocks = 0
+  rangeTotal = 0
+  rangeSamples = 0
+  learned = createHabits()
+}
+
+/**
+ * Habits as of the last round start (what the AI adapts to this round)
+ */
+export function getLearnedHabits(): PlayerHabits {
+  return learned
+}
+
+/**
+ * Seconds since "FIGHT!" of the current round
+ */
+export function getRoundTime(): number {
+  return getMatchTime() - roundStartTime
+}
+
+/**
+ * Match time the player's latest whiff finished recovering (-1 = none this round)
+ */
+export function getLastWhiffRecovery(): number {
+  return lastWhiffRecovery
+}
+
+/**
+ * Combat event subscriber (registered at startup) - a new match forgets everything, later rounds adapt,
+ * a restarted round is only counted once
+ */
+export function recordPlayerHabit(event: CombatEvent): void {
+  switch (event.type) {
+    case 'roundStart':
+      if (event.roundNumber === 1) {
+        resetPlayerHabits()
+      } else if (event.roundNumber === lastRoundNumber) {
+        // RESTART ROUND (pause menu) - take back the restarted round's opening so it isn't counted twice
+        openingRounds--
+        if (openedRound) openingAttacks--
+      } else {
+        learned = summarizeHabits()
+        logHabits()
+      }
+      lastRoundNumber = event.roundNumber
+      roundStartTime = getMatchTime()
+      watchingOpening = true
+      openedRound = false
+      openingRounds++
+      whiffPending = false
+      whiffWatchStart = -1
+      lastWhiffRecovery = -1
+      break
+    case 'whiff':
+      if (event.attackerSide === 'player') whiffPending = true
+      break
+  }
+}
+
+/**
+ * Watch the player this frame (called by the enemy AI while a round is live)
+ */
+export function observePlayerHabits(player: Entity, distance: number): void {
+  const fighter = FighterComponent.getOrNull(player)
+  if (!fighter) return
+
+  const now = getMatchTime()
+  const state = getFighterState(player)
+  const guarding = state === 'block' || fighter.holdingBack
+
+  // Attack started - note the range, and whether it opened the round
+  if (state === 'startup' && lastState !== 'startup') {
+    rangeTotal += distance
+    rangeSamples++
+    if (watchingOpening && now - roundStartTime <= HABIT_OPENING_WINDOW) {
+      openingAttacks++
+      openedRound = true
+    }
+    watchingOpening = false
+  }
+  if (watchingOpening && now - roundStartTime > HABIT_OPENING_WINDOW) {
+    watchingOpening = false
+  }
+
+  // Whiff recovered - start watching for a guard
+  if (whiffPending && canAct(state)) {
+    whiffPending = false
+    whiffWatchStart = now
+    lastWhiffRecovery = now
+  }
+  if (whiffWatchStart >= 0) {
+    if (guarding) {
+      whiffs++
+      whiffBlocks++
+      whiffWatchStart = -1
+    } else if (state !== lastState && !canAct(state)) {
+      whiffs++ // Attacked, dashed or got hit instead
+      whiffWatchStart = -1
+    } else if (now - whiffWatchStart > HABIT_WHIFF_WINDOW) {
+      whiffs++
+      whiffWatchStart = -1
+    }
+  }
+
+  lastState = state
+}
+
+function summarizeHabits(): PlayerHabits {
+  return {
+    openingAttackRate: openingRounds > 0 ? openingAttacks / openingRounds : null,
+    blockAfterWhiffRate: whiffs > 0 ? whiffBlocks / whiffs : null,
+    preferredRange: rangeSamples > 0 ? rangeTotal / rangeSamples : null
+  }
+}
+
+function logHabits(): void {
+  const percent = (rate: number | null) => (rate === null ? '?' : `${Math.round(rate * 100)}%`)
+  const range = learned.preferredRange === null ? '?' : learned.preferredRange.toFixed(1)
+  console.log(
+    `🧠 AI learned: opens with attack ${percent(learned.openingAttackRate)}, blocks after whiff ${percent(learned.blockAfterWhiffRate)}, attacks from ${range}m`
+  )
+}
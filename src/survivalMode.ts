@@ -0,0 +1,136 @@
+/**
+ * Survival Mode for Fright Night
+ * One fighter against an endless stream of random CPU opponents, one round each. Health only partly refills
+ * between fights, and the run ends at the first loss. The next opponent is swapped into the arena that's
+ * already up (see initializeBattle in menuSystem.ts).
+ */
+
+import { Entity } from '@dcl/sdk/ecs'
+import { FighterComponent, GameState } from './components'
+import { getGameState } from './factory'
+import { MenuStateComponent, getMenuState, CHARACTERS, STAGES, CharacterId } from './menuState'
+import { CombatEventOf } from './combatEvents'
+import { getPlayerEntity } from './systems'
+
+const SURVIVAL_ROUNDS_TO_WIN = 1 // Every fight is a single round
+const SURVIVAL_REFILL = 0.3 // Share of max health restored after each win
+
+export function isSurvivalRun(): boolean {
+  const menuStateEntity = getMenuState()
+  const menuState = menuStateEntity ? MenuStateComponent.getOrNull(menuStateEntity) : null
+  return !!menuState && menuState.gameMode === 'survival'
+}
+
+/**
+ * Title screen - pick a fighter next, then the first fight loads
+ */
+export function selectSurvivalMode(): void {
+  const menuStateEntity = getMenuState()
+  if (!menuStateEntity) return
+
+  const menuState = MenuStateComponent.getMutable(menuStateEntity)
+  menuState.gameMode = 'survival'
+  menuState.currentScreen = 'characterSelect'
+  menuState.selectingPlayer = true
+  console.log('💀 Survival Mode selected')
+}
+
+/**
+ * Fighter picked - start a fresh run at full health on a random stage
+ */
+export function startSurvivalRun(playerCharacterId: CharacterId): void {
+  const menuStateEntity = getMenuState()
+  if (!menuStateEntity) return
+
+  const menuState = MenuStateComponent.getMutable(menuStateEntity)
+  menuState.playerCharacterId = playerCharacterId
+  menuState.stageId = STAGES[Math.floor(Math.random() * STAGES.length)].id
+  menuState.survivalStreak = 0
+  menuState.survivalHealth = 0 // Full health
+  menuState.enemyCharacterId = pickSurvivalOpponent(playerCharacterId, '')
+  menuState.currentScreen = 'loading'
+  console.log('💀 Survival run started')
+}
+
+/**
+ * Random opponent - never the player's fighter or the one just beaten
+ */
+function pickSurvivalOpponent(playerCharacterId: string, previousId: string): CharacterId {
+  const pool = CHARACTERS.filter((c) => c.available && c.id !== playerCharacterId && c.id !== previousId)
+  return pool[Math.floor(Math.random() * pool.length)].id
+}
+
+/**
+ * A fight is about to start - single round, player starts with the health carried over
+ */
+export function prepareSurvivalFight(player: Entity): void {
+  const menuStateEntity = getMenuState()
+  const menuState = menuStateEntity ? MenuStateComponent.getOrNull(menuStateEntity) : null
+  if (!menuState) return
+
+  const gameStateEntity = getGameState()
+  const gameState = gameStateEntity ? GameState.getMutableOrNull(gameStateEntity) : null
+  if (gameState) {
+    gameState.roundsToWin = SURVIVAL_ROUNDS_TO_WIN
+  }
+
+  const fighter = FighterComponent.getMutableOrNull(player)
+  if (fighter) {
+    const carried = menuState.survivalHealth > 0 ? menuState.survivalHealth : fighter.maxHealth
+    fighter.startHealth = Math.min(fighter.maxHealth, carried)
+    fighter.health = fighter.startHealth
+  }
+}
+
+/**
+ * Match end subscriber (registered at startup) - a win is banked as soon as the fight ends,
+ * so it counts even if the player leaves for the main menu
+ */
+export function recordSurvivalResult(event: CombatEventOf<'matchEnd'>): void {
+  if (event.result !== 'player' || !isSurvivalRun()) return
+
+  const player = getPlayerEntity()
+  if (player) winSurvivalFight(player)
+}
+
+/**
+ * Fight won - bank the streak, refill some health and line up the next opponent
+ */
+function winSurvivalFight(player: Entity): void {
+  const menuStateEntity = getMenuState()
+  const fighter = FighterComponent.getOrNull(player)
+  if (!menuStateEntity || !fighter) return
+
+  const menuState = MenuStateComponent.getMutable(menuStateEntity)
+  menuState.survivalStreak += 1
+  menuState.survivalBest = Math.max(menuState.survivalBest, menuState.survivalStreak)
+  menuState.survivalHealth = Math.min(
+    fighter.maxHealth,
+    fighter.health + Math.round(fighter.maxHealth * SURVIVAL_REFILL)
+  )
+  menuState.enemyCharacterId = pickSurvivalOpponent(menuState.playerCharacterId, menuState.enemyCharacterId)
+  console.log(`💀 Survival streak: ${menuState.survivalStreak} - HP ${menuState.survivalHealth}/${fighter.maxHealth}`)
+}
+
+/**
+ * Run lost - start over from a streak of 0 at full health
+ */
+export function restartSurvivalRun(): void {
+  const menuStateEntity = getMenuState()
+  if (!menuStateEntity) return
+
+  const menuState = MenuStateComponent.getMutable(menuStateEntity)
+  console.log(`💀 Survival over - streak ${menuState.survivalStreak} (best ${menuState.survivalBest})`)
+  menuState.survivalStreak = 0
+  menuState.survivalHealth = 0
+  menuState.enemyCharacterId = pickSurvivalOpponent(menuState.playerCharacterId, menuState.enemyCharacterId)
+}
+
+/**
+ * Streak for the HUD and results screen
+ */
+export function getSurvivalStreak(): { streak: number; best: number } {
+  const menuStateEntity = getMenuState()
+  const menuState = menuStateEntity ? MenuStateComponent.getOrNull(menuStateEntity) : null
+  return menuState ? { streak: menuState.survivalStreak, best: menuState.survivalBest } : { streak: 0, best: 0 }
+}
@@ -1,21 +1,103 @@
 import { engine, Transform, inputSystem, InputAction, Entity, Animator } from '@dcl/sdk/ecs'
 import { Vector3, Quaternion } from '@dcl/sdk/math'
-import { FighterComponent, ARENA_CONFIG, AnimationState, GameState } from './components'
+import { FighterComponent, ARENA_CONFIG, GameState, MATCH_CONFIG } from './components'
 import { getGameState } from './factory'
+import { getCharacterMove } from './menuState'
+import { MoveData, MoveId, AttackHeight, framesToSeconds, getMoveDuration } from './moves'
+import {
+  playAnimation,
+  resolveAnimation,
+  canAct,
+  canGuard,
+  getFighterState,
+  setFighterState,
+  resetFighterState,
+  tickFighterState,
+  isThrowable,
+  FighterState
+} from './fighterState'
+import { isHitboxTouching, setActiveHitbox, clearActiveHitboxes, resolvePushboxes } from './hitboxes'
+import { emitCombatEvent, FighterSide, HitType } from './combatEvents'
+import { getMatchDelta, isMatchPaused, resetMatchClock, setSlowMotion, triggerHitStop } from './matchClock'
+import { getAIProfile } from './aiDifficulty'
+import { MotionId, BufferedCommand, recordFighterInput, consumeBufferedCommand, clearInputBuffers } from './inputBuffer'
 
 // Movement constants
-const MOVEMENT_SPEED = 4.0 // Faster movement for more tactical positioning
-const ENEMY_SPEED = 3.2 // AI needs to keep up
+const DASH_DURATION = 0.2 // Dash burst length
+const DASH_FORWARD_DISTANCE = 1.5 // Double-tap forward
+const DASH_BACK_DISTANCE = 1.2 // Double-tap back
+
+// Facing constants
+const TURN_DURATION = 0.15 // Side-switch turn-around
+const SIDE_SWITCH_MARGIN = 0.1 // Fighters must pass each other by this much before turning
 
 // Combat constants
-const COMBO_TIMEOUT = 1.5 // Seconds between hits to maintain combo
+const COMBO_SCALING_START = 3 // Combo hits from this one on deal reduced damage
+const COMBO_SCALING_STEP = 0.1 // Damage scale lost per scaled hit
+const COMBO_MIN_SCALE = 0.3 // Long combos never drop below 30% damage
 const KNOCKBACK_FORCE = 1.5 // Distance to push opponent back
 const KNOCKBACK_DURATION = 0.25 // Smooth knockback over 0.25s
-const STUN_DURATION = 0.2 // Hit stun duration
-const HIT_RANGE = 2.0 // Shorter range - must get close to hit (down from 2.5)
+const WHIFF_PENALTY = 0.3 // Extra recovery added to a missed attack
+const COUNTER_HIT_DAMAGE = 1.25 // Damage multiplier for hitting an attack's startup / active frames
+const COUNTER_HIT_HITSTUN = 10 // Extra hitstun frames on a counter-hit
+const PUNISH_DAMAGE = 1.15 // Damage multiplier for hitting an attack's recovery
+const PUNISH_HITSTUN = 6 // Extra hitstun frames on a punish
+const GUARD_REGEN_RATE = 12 // Guard meter per second
+const GUARD_REGEN_DELAY = 1.0 // Seconds after a blocked hit before the guard refills
+const GUARD_BREAK_STUN = 1.0 // Defenseless stun when the guard meter empties
+const HIT_STOP = 0.06 // Freeze on a clean hit (real seconds)
+const BLOCK_STOP = 0.03 // Shorter freeze on a blocked hit
+const KO_SLOW_MOTION = 0.3 // Match speed right after a KO
+const KO_SLOW_MOTION_DURATION = 1.0 // Real seconds of KO slow motion
+
+// Trait constants (see TRAITS in menuState.ts)
+const HEADSMAN_DAMAGE = 1.25 // Damage bonus against a low-health opponent
+const HEADSMAN_THRESHOLD = 0.3 // Health fraction that counts as low
+const GILDED_GUARD_DAMAGE = 0.5 // Guard damage taken multiplier
+const PLUNDER_METER = 1.5 // Super meter gain multiplier
+const FLEET_FOOT_DASH = 1.3 // Dash distance multiplier
+const LIFESTEAL = 0.15 // Share of hit damage healed
+const ROCK_SKIN_DAMAGE = 0.5 // Damage multiplier on the armored hit
+const REGEN_DELAY = 3.0 // Seconds without being hit before regeneration starts
+const REGEN_INTERVAL = 1.5 // Seconds per regenerated HP
+
+// Parry constants
+const PARRY_WINDOW = 0.1 // Seconds after pressing block that a hit is parried (6 frames)
+const PARRY_LOCKOUT = 0.3 // Extra wait before another press can open a new window
+const PARRY_DURATION = 0.25 // Defender's parry animation (no impact, no damage)
+const PARRY_STAGGER = 0.6 // Attacker is left open this long
+const PARRY_STOP = 0.1 // Longer freeze on a parry (real seconds)
+const PARRY_SUPER_GAIN = 10 // Super meter for a successful parry
+
+// Super meter constants
+const SUPER_GAIN_DEALT = 1.2 // Meter per point of damage dealt (hits and chip)
+const SUPER_GAIN_TAKEN = 0.8 // Meter per point of damage taken
+const SUPER_FREEZE = 0.6 // Real seconds the match freezes while the super flashes
+
+// Throw constants
+const THROW_TECH_WINDOW = 0.25 // Seconds the defender has to break a grab (~15 frames)
+const THROW_SLAM_DURATION = 0.4 // Paired throw animation once the grab can no longer be broken
+const THROW_PAIR_DISTANCE = 0.9 // Defender is held this far in front of the thrower
+
+// Motion commands override the button's move (e.g. quarter-circle + any attack = special)
+const MOTION_MOVES: Record<MotionId, MoveId> = {
+  quarterCircleForward: 'special',
+  doubleQuarterCircleForward: 'special', // Super when the meter is full
+  charge: 'heavy'
+}
+
+// A connected throw - grab (breakable) then slam (paired animation)
+type ThrowSequence = {
+  attacker: Entity
+  defender: Entity
+  move: MoveData
+  phase: 'grab' | 'slam'
+  timer: number // Seconds left in the phase
+  aiTechDelay: number // AI defender breaks the grab after this long (-1 = won't break it)
+}
 
-// Track hit detection per attack animation
-const pendingHitChecks = new Map<Entity, number>()
+let activeThrow: ThrowSequence | null = null
+let blockHeld = false // Edge detection for the parry window
 
 /**
  * Setup input event listeners (call once in main)
@@ -38,55 +120,34 @@ function getFighterByRole(isPlayer: boolean): Entity | null {
 }
 
 /**
- * Play animation with proper state management
+ * Event side name for a fighter
  */
-export function playAnimation(entity: Entity, animationName: AnimationState, durationMs?: number) {
-  const animator = Animator.getMutableOrNull(entity)
-  const fighter = FighterComponent.getMutableOrNull(entity)
-
-  if (!animator || !fighter) return
-
-  // Stop all animations first for clean transition
-  for (const state of animator.states) {
-    state.playing = false
-  }
-
-  // Play target animation
-  const targetState = animator.states.find((s) => s.clip === animationName)
-  if (targetState) {
-    targetState.playing = true
-    targetState.speed = 1.0
-    fighter.currentAnimation = animationName
-
-    // Set timer if duration provided
-    if (durationMs) {
-      fighter.animationTimer = durationMs / 1000
-    }
-  }
+function getSide(isPlayer: boolean): FighterSide {
+  return isPlayer ? 'player' : 'enemy'
 }
 
 /**
- * Reset fighter to idle animation
+ * Get a fighter's move from its character's move list
  */
-function resetToIdle(entity: Entity) {
-  const animator = Animator.getMutableOrNull(entity)
-  const fighter = FighterComponent.getMutableOrNull(entity)
-
-  if (!animator || !fighter) return
-
-  for (const state of animator.states) {
-    state.playing = state.clip === 'idle'
-  }
-  fighter.currentAnimation = 'idle'
-  fighter.animationTimer = 0
+export function getFighterMove(entity: Entity, moveId: MoveId): MoveData {
+  const fighter = FighterComponent.getOrNull(entity)
+  return getCharacterMove(fighter ? fighter.characterId : '', moveId)
 }
 
 /**
- * Unified timer system - handles all timing (animations, i-frames, hit checks, cooldowns)
+ * Unified timer system - handles all timing (state machine, i-frames, hit checks, cooldowns)
  */
-export function unifiedTimerSystem(dt: number) {
+export function unifiedTimerSystem() {
+  const dt = getMatchDelta()
+  if (dt <= 0) return // Clock frozen (pause / hit-stop)
+
+  // Hits (and regeneration) only count while the round is live (a KO or time over locks in the result)
+  const gameStateEntity = getGameState()
+  const gameState = gameStateEntity ? GameState.getOrNull(gameStateEntity) : null
+  const roundLive = !!gameState && gameState.isMatchActive
+
   // Update per-fighter timers
-  for (const [entity, fighter] of engine.getEntitiesWith(FighterComponent)) {
+  for (const [entity] of engine.getEntitiesWith(FighterComponent)) {
     const mutableFighter = FighterComponent.getMutable(entity)
 
     // Invincibility frames (prevents damage spam)
@@ -99,20 +160,56 @@ export function unifiedTimerSystem(dt: number) {
       mutableFighter.attackCooldown -= dt
     }
 
-    // Stun timer (blocks all actions)
-    if (mutableFighter.stunTimer > 0) {
-      mutableFighter.stunTimer -= dt
+    // Parry window and its lockout
+    if (mutableFighter.parryTimer > 0) {
+      mutableFighter.parryTimer -= dt
+    }
+    if (mutableFighter.parryCooldown > 0) {
+      mutableFighter.parryCooldown -= dt
     }
 
-    // Animation timer
-    if (mutableFighter.animationTimer > 0) {
-      mutableFighter.animationTimer -= dt
+    // Guard meter refills after a short delay, but not while still blocking or stunned by a guard break
+    if (mutableFighter.guardRegenDelay > 0) {
+      mutableFighter.guardRegenDelay -= dt
+    } else if (
+      mutableFighter.state !== 'block' &&
+      mutableFighter.state !== 'blockstun' &&
+      mutableFighter.state !== 'guardBreak'
+    ) {
+      mutableFighter.guardMeter = Math.min(mutableFighter.maxGuard, mutableFighter.guardMeter + GUARD_REGEN_RATE * dt)
+    }
 
-      if (mutableFighter.animationTimer <= 0) {
-        resetToIdle(entity)
+    // Regeneration trait - 1 HP at a time once the fighter hasn't been hit for a while
+    if (
+      roundLive &&
+      mutableFighter.trait === 'regeneration' &&
+      mutableFighter.health > 0 &&
+      mutableFighter.health < mutableFighter.maxHealth
+    ) {
+      mutableFighter.regenDelay -= dt
+      if (mutableFighter.regenDelay <= 0) {
+        mutableFighter.health = Math.min(mutableFighter.maxHealth, mutableFighter.health + 1)
+        mutableFighter.regenDelay = REGEN_INTERVAL
       }
     }
 
+    // State timers (attack phases, stuns, dashes, turns) - an active window that ends without contact is a whiff
+    const endedState = tickFighterState(entity, dt)
+    if (endedState === 'active' && !mutableFighter.moveConnected) {
+      applyWhiffPenalty(entity)
+    }
+
+    // Guard break wore off - the guard meter is full again
+    if (endedState === 'guardBreak') {
+      mutableFighter.guardMeter = mutableFighter.maxGuard
+    }
+
+    // Recovering from hitstun ends the opponent's combo
+    if (endedState === 'hitstun' || endedState === 'knockdown') {
+      const opponent = getFighterByRole(!mutableFighter.isPlayer)
+      if (opponent) endCombo(opponent)
+    }
+
     // Knockback slide (smooth pushback over time)
     if (mutableFighter.knockbackActive) {
       mutableFighter.knockbackProgress += dt / KNOCKBACK_DURATION
@@ -129,7 +226,8 @@ export function unifiedTimerSystem(dt: number) {
       )
 
       // Apply smooth slide (slows down over time)
-      const slideSpeed = (KNOCKBACK_FORCE / KNOCKBACK_DURATION) * (1 - easeProgress)
+      // Heavier fighters are pushed less far
+      const slideSpeed = (KNOCKBACK_FORCE / mutableFighter.weight / KNOCKBACK_DURATION) * (1 - easeProgress)
       const slideDistance = Vector3.scale(knockbackDir, slideSpeed * dt)
 
       const transform = Transform.getMutable(entity)
@@ -148,24 +246,91 @@ export function unifiedTimerSystem(dt: number) {
         mutableFighter.knockbackProgress = 0
       }
     }
+
+    // Dash burst (constant speed, constrained to arena)
+    if (mutableFighter.state === 'dash') {
+      const transform = Transform.getMutable(entity)
+      const newX = transform.position.x + mutableFighter.dashVelocityX * dt
+      transform.position = Vector3.create(
+        Math.max(ARENA_CONFIG.xMin, Math.min(ARENA_CONFIG.xMax, newX)),
+        0,
+        transform.position.z
+      )
+    }
   }
 
-  // Hit detection timers (mid-animation hit checks)
-  for (const [entity, timer] of pendingHitChecks.entries()) {
-    const newTimer = timer - dt
-    if (newTimer <= 0) {
-      pendingHitChecks.delete(entity)
-      checkAttackHit(entity)
-    } else {
-      pendingHitChecks.set(entity, newTimer)
+  // Knockback and dashes can push fighters into each other
+  resolveFighterOverlap()
+
+  // Grab / slam of a connected throw
+  updateThrow(dt, roundLive)
+
+  // Hit detection during active frames - collect first so a trade on the same frame lands both ways
+  const connected: { attacker: Entity; move: MoveData }[] = []
+  for (const [entity, fighter] of engine.getEntitiesWith(FighterComponent)) {
+    const isActive = fighter.state === 'active' && !fighter.moveConnected
+    const move = isActive ? getFighterMove(entity, fighter.currentMove as MoveId) : null
+    setActiveHitbox(entity, move ? move.hitbox : null)
+
+    if (move && roundLive && checkAttackHit(entity, move)) {
+      connected.push({ attacker: entity, move })
     }
   }
+  for (const { attacker, move } of connected) {
+    resolveAttackHit(attacker, move)
+  }
+
+  // Decide KOs only once every hit of this frame has landed, so a trade can end in a double KO
+  if (connected.length > 0) {
+    checkKnockouts()
+  }
+}
+
+/**
+ * Direction a fighter walks when holding forward (towards the opponent, flat on the ground)
+ */
+function getForwardDirection(entity: Entity): Vector3 {
+  const fighter = FighterComponent.getOrNull(entity)
+  const transform = Transform.getOrNull(entity)
+  const opponent = fighter ? getFighterByRole(!fighter.isPlayer) : null
+  const opponentTransform = opponent ? Transform.getOrNull(opponent) : null
+  const sideDirection = Vector3.create(fighter && fighter.facingRight ? 1 : -1, 0, 0)
+
+  if (!transform || !opponentTransform) return sideDirection
+
+  const toOpponent = Vector3.subtract(opponentTransform.position, transform.position)
+  toOpponent.y = 0
+
+  // Opponent on the wrong side (cross-up not yet turned) or on top of us - walk along the side axis
+  if (Vector3.length(toOpponent) < 0.1 || Math.sign(toOpponent.x) !== sideDirection.x) return sideDirection
+  return Vector3.normalize(toOpponent)
+}
+
+/**
+ * Keep the two fighters' pushboxes from overlapping
+ */
+function resolveFighterOverlap() {
+  const player = getFighterByRole(true)
+  const enemy = getFighterByRole(false)
+  if (!player || !enemy) return
+
+  resolvePushboxes(player, enemy)
+}
+
+/**
+ * Pushbox system - separates the fighters after player and AI movement
+ */
+export function pushboxSystem() {
+  resolveFighterOverlap()
 }
 
 /**
  * Player input and movement system (event-driven, normalized diagonals)
  */
-export function playerMovementSystem(dt: number) {
+export function playerMovementSystem() {
+  const dt = getMatchDelta()
+  if (isMatchPaused()) return // Menu presses shouldn't reach the input buffer
+
   // Check if match has started (countdown finished)
   const gameStateEntity = getGameState()
   if (gameStateEntity) {
@@ -183,58 +348,74 @@ export function playerMovementSystem(dt: number) {
 
   if (!transform || !fighter) return
 
-  // Skip if dead, animation-locked, stunned, OR during attack cooldown grace period
-  if (fighter.health <= 0) return
-  if (fighter.animationTimer > 0 || fighter.stunTimer > 0) {
+  // Buffer input every frame - presses made while locked come out as soon as the fighter can act
+  const facingRight = fighter.facingRight
+  recordFighterInput(player, facingRight, dt, canAct(getFighterState(player)) && fighter.attackCooldown > 0)
+
+  // Pressing block opens the parry window (measured in match time, so a press during hit-stop still counts)
+  const blockPressed = inputSystem.isPressed(InputAction.IA_SECONDARY)
+  if (blockPressed && !blockHeld && fighter.parryCooldown <= 0) {
+    fighter.parryTimer = PARRY_WINDOW
+    fighter.parryCooldown = PARRY_WINDOW + PARRY_LOCKOUT
+  }
+  blockHeld = blockPressed
+
+  // Clock frozen (pause / hit-stop) - presses stay buffered until time moves again
+  if (dt <= 0) return
+
+  // Forward/back are relative to the side the opponent is on (holding back guards, even after a cross-up)
+  const side = facingRight ? 1 : -1
+  let moveForward = 0
+  if (inputSystem.isPressed(InputAction.IA_RIGHT)) moveForward += side // D key
+  if (inputSystem.isPressed(InputAction.IA_LEFT)) moveForward -= side // A key
+  fighter.holdingBack = moveForward < 0
+
+  // Throw escape - pressing throw during the grab breaks it
+  if (getFighterState(player) === 'thrown') {
+    if (consumeBufferedCommand(player, ['throw'])) techThrow(player)
     return
   }
 
-  // Prevent movement during early attack cooldown (prevents run animation flicker when spamming E)
-  const isInAttackRecovery = fighter.attackCooldown > 0.6 // First 0.2s of 0.8s cooldown
-  if (isInAttackRecovery) {
-    // Still allow blocking during recovery, but no movement
-    const isBlocking = inputSystem.isPressed(InputAction.IA_SECONDARY)
-    if (isBlocking && fighter.currentAnimation !== 'block') {
-      fighter.blocking = true
-      playAnimation(player, 'block')
-    } else if (!isBlocking && fighter.currentAnimation === 'block') {
-      fighter.blocking = false
-      playAnimation(player, 'idle')
-    }
-    return // Block movement input during attack recovery
+  // Down (S key) crouches - guard height can also change during blockstun (block strings)
+  if (fighter.health > 0 && canGuard(getFighterState(player))) {
+    fighter.stance = inputSystem.isPressed(InputAction.IA_BACKWARD) ? 'crouching' : 'standing'
   }
+  const crouching = fighter.stance === 'crouching'
 
-  // Block input (F key = IA_SECONDARY) - Blocks movement but not attacks
+  // Skip if dead, or if the state machine says we're busy (attacking, stunned, dashing, turning)
+  if (fighter.health <= 0) return
+  if (!canAct(getFighterState(player))) return
+
+  // Block input (F key = IA_SECONDARY) - Blocks movement but not attacks, guards in the current stance
   const isBlocking = inputSystem.isPressed(InputAction.IA_SECONDARY)
 
   if (isBlocking) {
-    fighter.blocking = true
-    if (fighter.currentAnimation !== 'block') {
-      playAnimation(player, 'block')
-    }
-  } else {
-    fighter.blocking = false
+    enterGuard(player)
   }
 
-  // Read input using SDK7 inputSystem (polling-based)
-  let moveX = 0
-  let moveZ = 0
-
-  // Can't move while blocking
-  if (!isBlocking) {
-    if (inputSystem.isPressed(InputAction.IA_RIGHT)) moveX += 1 // D key
-    if (inputSystem.isPressed(InputAction.IA_LEFT)) moveX -= 1 // A key
-    if (inputSystem.isPressed(InputAction.IA_FORWARD)) moveZ += 1 // W key
-    if (inputSystem.isPressed(InputAction.IA_BACKWARD)) moveZ -= 1 // S key
+  // Dash (double-tap forward/back) - can't dash while blocking or crouching
+  if (!isBlocking && !crouching) {
+    const dash = consumeBufferedCommand(player, ['dashForward', 'dashBack'])
+    if (dash) {
+      const towardsEnemy = facingRight ? 1 : -1
+      const dashScale = fighter.trait === 'fleetFoot' ? FLEET_FOOT_DASH : 1
+      const distance = (dash.kind === 'dashForward' ? DASH_FORWARD_DISTANCE : -DASH_BACK_DISTANCE) * dashScale
+      fighter.dashVelocityX = (towardsEnemy * distance) / DASH_DURATION
+      setFighterState(player, 'dash', DASH_DURATION)
+      return
+    }
   }
 
-  const movement = Vector3.create(moveX, 0, moveZ)
+  // Forward walks along the line towards the opponent (no walking while blocking or crouching)
+  const canWalk = !isBlocking && !crouching
+  const forwardDir = getForwardDirection(player)
+  const movement = canWalk ? Vector3.scale(forwardDir, moveForward) : Vector3.Zero()
   const movementLength = Vector3.length(movement)
 
-  // Apply movement with normalized diagonals (only if not blocking)
-  if (movementLength > 0.1 && !isBlocking) {
+  // Apply movement with normalized diagonals
+  if (movementLength > 0.1) {
     const normalizedMovement = Vector3.normalize(movement)
-    const velocity = Vector3.scale(normalizedMovement, MOVEMENT_SPEED * dt)
+    const velocity = Vector3.scale(normalizedMovement, fighter.walkSpeed * dt)
 
     // Direct movement (no lerp to prevent "running in place" visuals)
     let newPosition = Vector3.add(transform.position, velocity)
@@ -246,48 +427,147 @@ export function playerMovementSystem(dt: number) {
 
     transform.position = newPosition
 
-    // Play walk animation
-    if (fighter.currentAnimation !== 'walk') {
-      playAnimation(player, 'walk')
+    // Walk state (plays walk animation)
+    if (getFighterState(player) !== 'walk') {
+      setFighterState(player, 'walk')
+    }
+  } else if (crouching && !isBlocking) {
+    // Crouch state (plays crouch animation)
+    if (getFighterState(player) !== 'crouch') {
+      setFighterState(player, 'crouch')
     }
-  } else if (fighter.currentAnimation !== 'idle' && !isBlocking) {
+  } else if (getFighterState(player) !== 'idle' && !isBlocking) {
     // Return to idle when not moving (and not blocking)
-    playAnimation(player, 'idle')
+    setFighterState(player, 'idle')
   }
 
-  // Attack input (E key or Primary button) with cooldown - Can attack while blocking (block-cancel into attack)
-  if (inputSystem.isPressed(InputAction.IA_PRIMARY) && fighter.attackCooldown <= 0) {
-    fighter.blocking = false // Cancel block on attack
-    performAttack(player)
+  // Attack input (buffered light / heavy / special, or a motion command) - Can attack while blocking (block-cancel)
+  if (fighter.attackCooldown <= 0) {
+    const command = consumeBufferedCommand(player, ['light', 'heavy', 'special', 'throw'])
+    if (command) {
+      // Block-cancel is allowed by the state machine (block -> startup)
+      const superReady = fighter.superMeter >= fighter.maxSuper
+      performAttack(player, getCommandMove(command, crouching, moveForward > 0, superReady))
+    }
   }
 }
 
 /**
- * Perform attack with cooldown management
+ * Pick the move for a button press - motion commands first, then stance and direction
+ */
+function getCommandMove(
+  command: BufferedCommand,
+  crouching: boolean,
+  holdingForward: boolean,
+  superReady: boolean
+): MoveId {
+  if (command.kind === 'throw') return 'throw'
+  if (command.motion === 'doubleQuarterCircleForward' && superReady) return 'super'
+  if (command.motion) return MOTION_MOVES[command.motion]
+  if (crouching && command.kind === 'light') return 'crouchLight'
+  if (crouching && command.kind === 'heavy') return 'crouchHeavy'
+  if (holdingForward && command.kind === 'heavy') return 'overhead'
+  return command.kind as MoveId
+}
+
+/**
+ * Enter (or stay in) guard, using the crouching guard when crouched
  */
-function performAttack(attacker: Entity) {
+export function enterGuard(entity: Entity) {
+  const fighter = FighterComponent.getOrNull(entity)
+  if (!fighter) return
+
+  const guardAnimation = fighter.stance === 'crouching' ? 'crouch_block' : 'block'
+  if (getFighterState(entity) !== 'block') {
+    setFighterState(entity, 'block', 0, guardAnimation)
+  } else if (fighter.currentAnimation !== resolveAnimation(entity, guardAnimation)) {
+    playAnimation(entity, guardAnimation) // Switched guard height (compare the clip the model really plays)
+  }
+}
+
+/**
+ * Guard height rules - standing guard loses to lows, crouching guard loses to overheads
+ */
+function isGuardHeightCorrect(stance: string, height: AttackHeight): boolean {
+  if (height === 'low') return stance === 'crouching'
+  if (height === 'overhead') return stance === 'standing'
+  return true // Highs and mids can be blocked either way
+}
+
+/**
+ * Perform attack using the fighter's move data (startup -> active -> recovery)
+ */
+export function performAttack(attacker: Entity, moveId: MoveId) {
   const fighter = FighterComponent.getMutableOrNull(attacker)
   if (!fighter) return
 
-  playAnimation(attacker, 'attack', 800) // 0.8 second attack animation
+  const move = getFighterMove(attacker, moveId)
+  if (move.id === 'super' && fighter.superMeter < fighter.maxSuper) return
+  if (!setFighterState(attacker, 'startup', framesToSeconds(move.startup), move.animation)) return
+
+  fighter.currentMove = move.id
+  fighter.moveConnected = false
+  fighter.stance = move.height === 'low' ? 'crouching' : 'standing' // Low attacks are done crouched
+
+  // Per-move cooldown (always covers the whole move, a clean hit cuts it short - see resolveAttackHit)
+  fighter.attackCooldown = Math.max(getMoveDuration(move), move.cooldown)
 
-  // Set cooldown
-  fighter.attackCooldown = 0.8
+  // Supers spend the whole meter and freeze the match for the cinematic flash
+  if (move.id === 'super') {
+    fighter.superMeter = 0
+    triggerHitStop(SUPER_FREEZE)
+    emitCombatEvent({ type: 'super', attacker, attackerSide: getSide(fighter.isPlayer), move })
+  }
+}
+
+/**
+ * Add to a fighter's super meter (capped at full)
+ */
+function gainSuperMeter(entity: Entity, amount: number) {
+  const fighter = FighterComponent.getMutableOrNull(entity)
+  if (!fighter) return
 
-  // Schedule hit detection for mid-attack (0.4 seconds)
-  pendingHitChecks.set(attacker, 0.4)
+  const gain = fighter.trait === 'plunder' ? amount * PLUNDER_METER : amount
+  fighter.superMeter = Math.min(fighter.maxSuper, fighter.superMeter + gain)
 }
 
 /**
- * Check if attack hits opponent
+ * Check if an active attack connects this frame (hitbox touches the opponent, or i-frames absorb it)
  */
-function checkAttackHit(attacker: Entity) {
-  const attackerTransform = Transform.getOrNull(attacker)
+function checkAttackHit(attacker: Entity, move: MoveData): boolean {
   const attackerFighter = FighterComponent.getOrNull(attacker)
+  if (!attackerFighter) return false
+
+  // Find opponent
+  const opponent = getFighterByRole(!attackerFighter.isPlayer)
+  if (!opponent) return false
+
+  const opponentFighter = FighterComponent.getOrNull(opponent)
+  if (!opponentFighter) return false
+
+  // Opponent is invincible (i-frames) - attack is absorbed, no whiff penalty
+  if (opponentFighter.invincibilityTimer > 0) return true
+
+  // Crouching ducks under high attacks, and throws only grab a fighter who isn't reeling
+  if (move.height === 'high' && opponentFighter.stance === 'crouching') return false
+  if (move.height === 'throw' && !isThrowable(getFighterState(opponent))) return false
+
+  // Check the move's hitbox (in front of the attacker) against the opponent's hurtbox
+  return isHitboxTouching(attacker, move.hitbox, opponent)
+}
+
+/**
+ * Resolve a connected attack - blocked (chip damage) or hit (damage, combo knockback)
+ */
+function resolveAttackHit(attacker: Entity, move: MoveData) {
+  const attackerTransform = Transform.getOrNull(attacker)
+  const attackerFighter = FighterComponent.getMutableOrNull(attacker)
 
   if (!attackerTransform || !attackerFighter) return
 
-  // Find opponent
+  // Only one contact per move
+  attackerFighter.moveConnected = true
+
   const opponent = getFighterByRole(!attackerFighter.isPlayer)
   if (!opponent) return
 
@@ -295,138 +575,420 @@ function checkAttackHit(attacker: Entity) {
   const opponentFighter = FighterComponent.getOrNull(opponent)
 
   if (!opponentTransform || !opponentFighter) return
-
-  // Check if opponent is invincible (i-frames)
   if (opponentFighter.invincibilityTimer > 0) return
 
-  // Check distance
-  const distance = Vector3.distance(attackerTransform.position, opponentTransform.position)
-  const hitRange = HIT_RANGE
-
-  if (distance < hitRange) {
-    // Check if opponent is blocking
-    if (opponentFighter.blocking) {
-      // Blocked! Reduce damage by 50%
-      applyDamage(opponent, 7.5) // 15 * 0.5 = 7.5
-      console.log(`🛡️ ${opponentFighter.isPlayer ? 'Player' : 'Enemy'} BLOCKED! Reduced damage`)
-
-      // No knockback or stun on block, but play impact animation
-      playAnimation(opponent, 'impact', 300)
-    } else {
-      // Hit landed unblocked!
-      applyDamage(opponent, 15)
-
-      // Check current combo count from game state
-      const gameStateEntity = getGameState()
-      const currentCombo = gameStateEntity ? GameState.getOrNull(gameStateEntity)?.comboCount || 0 : 0
-
-      // Apply SMOOTH knockback ONLY on 3+ hit combos
-      if (currentCombo >= 3) {
-        const pushDir = Vector3.normalize(Vector3.subtract(opponentTransform.position, attackerTransform.position))
-        const opponentMutableFighter = FighterComponent.getMutable(opponent)
-
-        // Store knockback direction
-        opponentMutableFighter.knockbackDirX = pushDir.x
-        opponentMutableFighter.knockbackDirY = pushDir.y
-        opponentMutableFighter.knockbackDirZ = pushDir.z
-
-        // Activate smooth knockback slide
-        opponentMutableFighter.knockbackActive = true
-        opponentMutableFighter.knockbackProgress = 0
-
-        console.log(`🔥 ${currentCombo} HIT COMBO! KNOCKBACK!`)
-      }
+  // Throws go through any guard - the defender can only break them
+  if (move.height === 'throw') {
+    startThrow(attacker, opponent, move)
+    return
+  }
 
-      // Apply stun (blocks all actions for 0.2s) - always on hit
-      const opponentMutableFighter = FighterComponent.getMutable(opponent)
-      opponentMutableFighter.stunTimer = STUN_DURATION
+  // Check if opponent is guarding (block button, or holding back while free to guard) at the right height
+  // Blockstun keeps guarding, so a block string stays blocked (and parryable) hit after hit
+  const opponentState = getFighterState(opponent)
+  const isGuarding =
+    opponentState === 'block' ||
+    opponentState === 'blockstun' ||
+    (opponentFighter.holdingBack && canGuard(opponentState))
+  const wrongGuard = isGuarding && !isGuardHeightCorrect(opponentFighter.stance, move.height)
+  if (isGuarding && !wrongGuard && opponentFighter.parryTimer > 0) {
+    // Parried! Block was pressed just as the hit landed - no damage, and the attacker is left open
+    applyParry(attacker, opponent, move)
+  } else if (isGuarding && !wrongGuard) {
+    // Blocked! Only chip damage gets through, and the guard meter drains
+    applyDamage(attacker, opponent, move, true)
+  } else {
+    // Hit landed unblocked! (or a low / overhead beat the wrong guard)
+    applyDamage(attacker, opponent, move, false, wrongGuard)
+
+    // A clean hit frees the attacker as soon as the move ends, so lights link inside their hitstun
+    if (getFighterState(attacker) === 'active') {
+      attackerFighter.attackCooldown = Math.min(
+        attackerFighter.attackCooldown,
+        attackerFighter.stateTimer + framesToSeconds(move.recovery)
+      )
+    }
 
-      console.log(
-        `💥 ${attackerFighter.isPlayer ? 'Player' : 'Enemy'} hit! Distance: ${distance.toFixed(2)}m | Stun applied!`
+    // Apply SMOOTH knockback ONLY on 3+ hit combos (knockdown state)
+    const currentCombo = attackerFighter.comboCount
+    if (currentCombo >= 3 && opponentFighter.health > 0) {
+      applyKnockback(
+        opponent,
+        Vector3.normalize(Vector3.subtract(opponentTransform.position, attackerTransform.position))
       )
+      setFighterState(opponent, 'knockdown', Math.max(framesToSeconds(move.hitstun), KNOCKBACK_DURATION))
+      emitCombatEvent({
+        type: 'knockdown',
+        attacker,
+        defender: opponent,
+        attackerSide: getSide(attackerFighter.isPlayer),
+        comboCount: currentCombo
+      })
     }
-  } else {
-    // WHIFF PUNISHMENT: Missed attack = longer cooldown (punish spam!)
-    const attackerMutableFighter = FighterComponent.getMutable(attacker)
-    attackerMutableFighter.attackCooldown += 0.3 // Add 0.3s penalty to cooldown
-    console.log(`⚠️ ${attackerFighter.isPlayer ? 'Player' : 'Enemy'} WHIFFED! Longer recovery`)
   }
 }
 
 /**
- * Apply damage with i-frames and combo tracking
+ * Parry - the defender takes nothing and skips the impact, the attacker staggers
  */
-function applyDamage(target: Entity, amount: number) {
-  const fighter = FighterComponent.getMutableOrNull(target)
+function applyParry(attacker: Entity, defender: Entity, move: MoveData) {
+  const defenderFighter = FighterComponent.getMutableOrNull(defender)
+  if (!defenderFighter) return
+
+  defenderFighter.parryTimer = 0
+  endCombo(attacker)
+
+  setFighterState(defender, 'parry', PARRY_DURATION)
+  setFighterState(attacker, 'hitstun', PARRY_STAGGER, 'stun')
+  gainSuperMeter(defender, PARRY_SUPER_GAIN)
+
+  triggerHitStop(PARRY_STOP)
+  emitCombatEvent({ type: 'parry', attacker, defender, attackerSide: getSide(!defenderFighter.isPlayer), move })
+}
+
+/**
+ * Start a smooth knockback slide away along pushDir
+ */
+function applyKnockback(entity: Entity, pushDir: Vector3) {
+  const fighter = FighterComponent.getMutableOrNull(entity)
   if (!fighter) return
 
-  // Skip if invincible
-  if (fighter.invincibilityTimer > 0) return
+  // Store knockback direction
+  fighter.knockbackDirX = pushDir.x
+  fighter.knockbackDirY = pushDir.y
+  fighter.knockbackDirZ = pushDir.z
 
-  // Update game state for combo tracking
-  const gameStateEntity = getGameState()
-  if (gameStateEntity) {
-    const gameState = GameState.getMutableOrNull(gameStateEntity)
-    if (gameState) {
-      const currentTime = Date.now() / 1000 // Convert to seconds
-
-      // Check if this continues a combo (within timeout window)
-      if (currentTime - gameState.lastHitTime < COMBO_TIMEOUT) {
-        gameState.comboCount += 1
-        console.log(`🔥 ${gameState.comboCount} HIT COMBO!`)
-      } else {
-        gameState.comboCount = 1 // Reset combo
-      }
+  // Activate smooth knockback slide
+  fighter.knockbackActive = true
+  fighter.knockbackProgress = 0
+}
+
+/**
+ * A throw connected - both fighters enter the paired grab, the defender gets a short window to break it
+ */
+function startThrow(attacker: Entity, defender: Entity, move: MoveData) {
+  const attackerFighter = FighterComponent.getOrNull(attacker)
+  const defenderFighter = FighterComponent.getMutableOrNull(defender)
+  if (!attackerFighter || !defenderFighter) return
+
+  // The defender may have been hit by a trade on this same frame
+  if (!isThrowable(getFighterState(defender))) return
+  if (!setFighterState(attacker, 'throwing') || !setFighterState(defender, 'thrown')) return
+
+  defenderFighter.stance = 'standing'
+  defenderFighter.knockbackActive = false
+
+  const aiTechs = !defenderFighter.isPlayer && Math.random() < getAIProfile().techRate
+  activeThrow = {
+    attacker,
+    defender,
+    move,
+    phase: 'grab',
+    timer: THROW_TECH_WINDOW,
+    aiTechDelay: aiTechs ? Math.random() * THROW_TECH_WINDOW : -1
+  }
+  holdThrowPair(attacker, defender)
+
+  triggerHitStop(BLOCK_STOP)
+  emitCombatEvent({ type: 'throw', attacker, defender, attackerSide: getSide(attackerFighter.isPlayer) })
+}
+
+/**
+ * Hold the thrown fighter in front of the thrower (paired animation spacing, kept inside the arena)
+ */
+function holdThrowPair(attacker: Entity, defender: Entity) {
+  const attackerTransform = Transform.getMutableOrNull(attacker)
+  const defenderTransform = Transform.getMutableOrNull(defender)
+  const attackerFighter = FighterComponent.getOrNull(attacker)
+  if (!attackerTransform || !defenderTransform || !attackerFighter) return
+
+  const dir = attackerFighter.facingRight ? 1 : -1
+  const z = attackerTransform.position.z
+  const defenderX = Math.max(
+    ARENA_CONFIG.xMin,
+    Math.min(ARENA_CONFIG.xMax, attackerTransform.position.x + dir * THROW_PAIR_DISTANCE)
+  )
+
+  // Against the wall the thrower steps back instead
+  attackerTransform.position = Vector3.create(defenderX - dir * THROW_PAIR_DISTANCE, 0, z)
+  defenderTransform.position = Vector3.create(defenderX, 0, z)
+}
+
+/**
+ * Advance the active throw - tech window, then the slam (damage + knockdown)
+ */
+function updateThrow(dt: number, roundLive: boolean) {
+  if (!activeThrow) return
+  const { attacker, defender, move } = activeThrow
 
-      gameState.lastHitTime = currentTime
+  // Interrupted (the thrower got hit in a trade) or the round ended - let go
+  if (!roundLive || getFighterState(attacker) !== 'throwing' || getFighterState(defender) !== 'thrown') {
+    releaseThrow()
+    return
+  }
+
+  holdThrowPair(attacker, defender)
+  activeThrow.timer -= dt
+
+  if (activeThrow.phase === 'grab') {
+    // AI defender reacts somewhere inside the tech window
+    const grabTime = THROW_TECH_WINDOW - activeThrow.timer
+    if (activeThrow.aiTechDelay >= 0 && grabTime >= activeThrow.aiTechDelay) {
+      techThrow(defender)
+    } else if (activeThrow.timer <= 0) {
+      activeThrow.phase = 'slam'
+      activeThrow.timer = THROW_SLAM_DURATION
     }
+    return
+  }
+
+  if (activeThrow.timer > 0) return
+
+  // Slam lands - the thrower recovers, the defender is knocked down
+  activeThrow = null
+  setFighterState(attacker, 'recovery', framesToSeconds(move.recovery))
+  applyDamage(attacker, defender, move, false)
+
+  const defenderFighter = FighterComponent.getOrNull(defender)
+  const attackerFighter = FighterComponent.getOrNull(attacker)
+  if (defenderFighter && attackerFighter && defenderFighter.health > 0) {
+    applyKnockback(defender, Vector3.create(attackerFighter.facingRight ? 1 : -1, 0, 0))
+    setFighterState(defender, 'knockdown', framesToSeconds(move.hitstun))
+  }
+  checkKnockouts()
+}
+
+/**
+ * Break the active throw (defender pressed throw in time) - both fighters are pushed apart
+ */
+function techThrow(defender: Entity) {
+  if (!activeThrow || activeThrow.phase !== 'grab' || activeThrow.defender !== defender) return
+
+  const { attacker } = activeThrow
+  const attackerFighter = FighterComponent.getOrNull(attacker)
+  if (!attackerFighter) return
+
+  activeThrow = null
+  setFighterState(attacker, 'idle')
+  setFighterState(defender, 'idle')
+
+  const dir = attackerFighter.facingRight ? 1 : -1
+  applyKnockback(defender, Vector3.create(dir, 0, 0))
+  applyKnockback(attacker, Vector3.create(-dir, 0, 0))
+
+  emitCombatEvent({ type: 'throwTech', attacker, defender, attackerSide: getSide(attackerFighter.isPlayer) })
+}
+
+/**
+ * Drop the active throw without resolving it
+ */
+function releaseThrow() {
+  if (!activeThrow) return
+
+  const { attacker, defender } = activeThrow
+  activeThrow = null
+  if (getFighterState(attacker) === 'throwing') setFighterState(attacker, 'idle')
+  if (getFighterState(defender) === 'thrown') setFighterState(defender, 'idle')
+}
+
+/**
+ * Whiff punishment: missed attack = longer cooldown (punish spam!)
+ */
+function applyWhiffPenalty(attacker: Entity) {
+  const attackerFighter = FighterComponent.getMutableOrNull(attacker)
+  if (!attackerFighter) return
+
+  attackerFighter.attackCooldown += WHIFF_PENALTY
+  emitCombatEvent({
+    type: 'whiff',
+    attacker,
+    attackerSide: getSide(attackerFighter.isPlayer),
+    move: getFighterMove(attacker, attackerFighter.currentMove as MoveId)
+  })
+}
+
+/**
+ * Apply move damage (chip damage if blocked) with i-frames, stun and combo tracking
+ */
+function applyDamage(attacker: Entity, target: Entity, move: MoveData, blocked: boolean, wrongGuard: boolean = false) {
+  const fighter = FighterComponent.getMutableOrNull(target)
+  if (!fighter) return
+
+  // Skip if invincible or already down
+  if (fighter.invincibilityTimer > 0 || fighter.health <= 0) return
+
+  // Combo tracking - a hit on a defender still in hitstun continues the attacker's combo
+  const attackerFighter = FighterComponent.getMutableOrNull(attacker)
+  const defenderState = getFighterState(target)
+  const continuesCombo = defenderState === 'hitstun' || defenderState === 'knockdown'
+  if (blocked || !continuesCombo) {
+    endCombo(attacker)
+  }
+
+  // Catching the defender mid-attack is a counter-hit (startup / active) or punish (recovery)
+  const hitType: HitType = blocked ? 'normal' : getHitType(defenderState)
+  const damageBonus = hitType === 'counter' ? COUNTER_HIT_DAMAGE : hitType === 'punish' ? PUNISH_DAMAGE : 1
+  const hitstunBonus = hitType === 'counter' ? COUNTER_HIT_HITSTUN : hitType === 'punish' ? PUNISH_HITSTUN : 0
+  const stunDuration = framesToSeconds(blocked ? move.blockstun : move.hitstun + hitstunBonus)
+
+  let comboCount = 0
+  let damageScale = 1
+  if (attackerFighter && !blocked) {
+    attackerFighter.comboCount += 1
+    comboCount = attackerFighter.comboCount
+    damageScale = getComboDamageScale(comboCount)
+  }
+
+  // Character stats and traits - attacker's damage (Headsman on a low opponent) over the defender's defense
+  const headsman =
+    attackerFighter?.trait === 'headsman' && fighter.health < fighter.maxHealth * HEADSMAN_THRESHOLD
+      ? HEADSMAN_DAMAGE
+      : 1
+  const statScale = ((attackerFighter ? attackerFighter.damageMultiplier : 1) * headsman) / fighter.defense
+
+  // Rock Skin - the first clean hit taken each round is armored (half damage, no flinch)
+  const armored = !blocked && fighter.trait === 'rockSkin' && !fighter.traitUsed
+  if (armored) {
+    fighter.traitUsed = true
+  }
+
+  const chipDamage = fighter.trait === 'bulwark' ? 0 : Math.round(move.chipDamage * statScale)
+  const hitDamage = Math.round(move.damage * damageScale * damageBonus * statScale * (armored ? ROCK_SKIN_DAMAGE : 1))
+  let amount = blocked ? chipDamage : Math.max(1, hitDamage)
+
+  // Undying - the first lethal hit of the round leaves 1 HP
+  if (amount >= fighter.health && fighter.health > 1 && fighter.trait === 'undying' && !fighter.traitUsed) {
+    amount = fighter.health - 1
+    fighter.traitUsed = true
+    emitCombatEvent({ type: 'trait', fighter: target, side: getSide(fighter.isPlayer), trait: 'undying' })
   }
 
   fighter.health = Math.max(0, fighter.health - amount)
-  console.log(`${fighter.isPlayer ? 'Player' : 'Enemy'} HP: ${fighter.health}/${fighter.maxHealth}`)
+  fighter.regenDelay = REGEN_DELAY
+  if (attackerFighter && !blocked) {
+    attackerFighter.comboDamage += amount
+
+    // Soul Feast - heal a share of hit damage
+    if (attackerFighter.trait === 'lifesteal' && attackerFighter.health > 0) {
+      attackerFighter.health = Math.min(
+        attackerFighter.maxHealth,
+        attackerFighter.health + Math.round(amount * LIFESTEAL)
+      )
+    }
+  }
+
+  // Super meter - dealing damage builds more than taking it (supers themselves build nothing)
+  if (move.id !== 'super') {
+    gainSuperMeter(attacker, amount * SUPER_GAIN_DEALT)
+  }
+  gainSuperMeter(target, amount * SUPER_GAIN_TAKEN)
+
+  // Blocked hits wear down the guard meter - emptying it breaks the guard
+  let guardBroken = false
+  if (blocked) {
+    const guardDamage = fighter.trait === 'gildedGuard' ? move.guardDamage * GILDED_GUARD_DAMAGE : move.guardDamage
+    fighter.guardMeter = Math.max(0, fighter.guardMeter - guardDamage)
+    fighter.guardRegenDelay = GUARD_REGEN_DELAY
+    guardBroken = fighter.guardMeter <= 0
+  }
+
+  // Impact freeze (the longest hit-stop of a trade wins)
+  triggerHitStop(blocked ? BLOCK_STOP : HIT_STOP)
+
+  const attackerSide = getSide(!fighter.isPlayer)
+  if (blocked) {
+    emitCombatEvent({
+      type: 'block',
+      attacker,
+      defender: target,
+      attackerSide,
+      move,
+      chipDamage: amount,
+      defenderHealth: fighter.health,
+      guardMeter: fighter.guardMeter
+    })
+  } else {
+    emitCombatEvent({
+      type: 'hit',
+      attacker,
+      defender: target,
+      attackerSide,
+      move,
+      damage: amount,
+      damageScale,
+      defenderHealth: fighter.health,
+      comboCount,
+      wrongGuard,
+      hitType
+    })
+  }
 
   // Grant i-frames to prevent spam damage
   fighter.invincibilityTimer = 0.3
 
-  if (fighter.health > 0) {
-    playAnimation(target, 'impact', 500) // Hit reaction
+  if (fighter.health > 0 && guardBroken) {
+    // Guard break - defenseless stun with an empty meter, it's full again once the stun wears off
+    setFighterState(target, 'guardBreak', GUARD_BREAK_STUN)
+    emitCombatEvent({ type: 'guardBreak', attacker, defender: target, attackerSide })
+  } else if (fighter.health > 0 && armored) {
+    // Armored hit - no reaction, the defender keeps doing what they were doing
+    emitCombatEvent({ type: 'trait', fighter: target, side: getSide(fighter.isPlayer), trait: 'rockSkin' })
+  } else if (fighter.health > 0) {
+    // Hit/block reaction - stunned for the move's hitstun or blockstun
+    setFighterState(target, blocked ? 'blockstun' : 'hitstun', stunDuration)
   } else {
-    // KO detected! Play die animation
-    console.log(`💀 ${fighter.isPlayer ? 'Player' : 'Enemy'} is KO'd!`)
-
-    // Play die animation (one-shot, stays at final frame)
-    const animator = Animator.getMutableOrNull(target)
-    if (animator) {
-      for (const state of animator.states) {
-        state.playing = false
-      }
-      const dieState = animator.states.find((s) => s.clip === 'die')
-      if (dieState) {
-        dieState.playing = true
-        dieState.loop = false // Play once and stop at last frame
-      }
-    }
+    // KO detected! KO state plays the one-shot die animation and never leaves
+    setFighterState(target, 'ko')
+    emitCombatEvent({ type: 'ko', fighter: target, side: getSide(fighter.isPlayer) })
+  }
+}
+
+/**
+ * Counter-hit or punish from the state the defender was caught in
+ */
+function getHitType(defenderState: FighterState): HitType {
+  if (defenderState === 'startup' || defenderState === 'active') return 'counter'
+  if (defenderState === 'recovery') return 'punish'
+  return 'normal'
+}
 
-    fighter.currentAnimation = 'die'
-    fighter.animationTimer = 99999
+/**
+ * Damage scale for the nth hit of a combo (later hits deal less)
+ */
+function getComboDamageScale(hit: number): number {
+  if (hit < COMBO_SCALING_START) return 1
+  return Math.max(COMBO_MIN_SCALE, 1 - COMBO_SCALING_STEP * (hit - COMBO_SCALING_START + 1))
+}
 
-    // Update game state
-    if (gameStateEntity) {
-      const gameState = GameState.getMutableOrNull(gameStateEntity)
-      if (gameState) {
-        gameState.isMatchActive = false
-        gameState.winner = fighter.isPlayer ? 'enemy' : 'player'
-        console.log(`🏆 ${gameState.winner.toUpperCase()} WINS!`)
-      }
-    }
+/**
+ * End an attacker's combo (defender recovered or blocked) - reports combos of 2+ hits
+ */
+function endCombo(attacker: Entity) {
+  const fighter = FighterComponent.getMutableOrNull(attacker)
+  if (!fighter || fighter.comboCount === 0) return
+
+  if (fighter.comboCount > 1) {
+    emitCombatEvent({
+      type: 'comboEnd',
+      attacker,
+      attackerSide: getSide(fighter.isPlayer),
+      hits: fighter.comboCount,
+      damage: fighter.comboDamage
+    })
   }
+
+  fighter.comboCount = 0
+  fighter.comboDamage = 0
 }
 
 /**
- * Reset match - called when player clicks "Restart Match"
+ * Put both fighters back on their spawn points at full health
  */
-export function resetMatch() {
-  console.log('🔄 Resetting match...')
+function resetFighters() {
+  // Drop any active hitboxes, throw and buffered input
+  clearActiveHitboxes()
+  clearInputBuffers()
+  activeThrow = null
 
   // Reset player
   const player = getFighterByRole(true)
@@ -436,17 +998,26 @@ export function resetMatch() {
     const playerAnimator = Animator.getMutableOrNull(player)
 
     if (playerFighter && playerTransform) {
-      playerFighter.health = playerFighter.maxHealth
-      playerFighter.animationTimer = 0
+      playerFighter.health = playerFighter.startHealth
+      playerFighter.traitUsed = false
+      playerFighter.regenDelay = 0
       playerFighter.invincibilityTimer = 0
+      playerFighter.parryTimer = 0
+      playerFighter.parryCooldown = 0
       playerFighter.attackCooldown = 0
-      playerFighter.stunTimer = 0
-      playerFighter.blocking = false
+      playerFighter.holdingBack = false
+      playerFighter.stance = 'standing'
+      playerFighter.facingRight = true
       playerFighter.knockbackActive = false
       playerFighter.knockbackProgress = 0
       playerFighter.knockbackDirX = 0
       playerFighter.knockbackDirY = 0
       playerFighter.knockbackDirZ = 0
+      playerFighter.dashVelocityX = 0
+      playerFighter.comboCount = 0
+      playerFighter.comboDamage = 0
+      playerFighter.guardMeter = playerFighter.maxGuard
+      playerFighter.guardRegenDelay = 0
       playerTransform.position = Vector3.create(ARENA_CONFIG.player.x, ARENA_CONFIG.player.y, ARENA_CONFIG.player.z)
       playerTransform.rotation = Quaternion.fromEulerDegrees(0, 90, 0)
 
@@ -458,6 +1029,8 @@ export function resetMatch() {
       }
 
       playerFighter.currentAnimation = 'idle'
+      playerFighter.moveConnected = false
+      resetFighterState(player)
     }
   }
 
@@ -469,17 +1042,26 @@ export function resetMatch() {
     const enemyAnimator = Animator.getMutableOrNull(enemy)
 
     if (enemyFighter && enemyTransform) {
-      enemyFighter.health = enemyFighter.maxHealth
-      enemyFighter.animationTimer = 0
+      enemyFighter.health = enemyFighter.startHealth
+      enemyFighter.traitUsed = false
+      enemyFighter.regenDelay = 0
       enemyFighter.invincibilityTimer = 0
+      enemyFighter.parryTimer = 0
+      enemyFighter.parryCooldown = 0
       enemyFighter.attackCooldown = 0
-      enemyFighter.stunTimer = 0
-      enemyFighter.blocking = false
+      enemyFighter.holdingBack = false
+      enemyFighter.stance = 'standing'
+      enemyFighter.facingRight = false
       enemyFighter.knockbackActive = false
       enemyFighter.knockbackProgress = 0
       enemyFighter.knockbackDirX = 0
       enemyFighter.knockbackDirY = 0
       enemyFighter.knockbackDirZ = 0
+      enemyFighter.dashVelocityX = 0
+      enemyFighter.comboCount = 0
+      enemyFighter.comboDamage = 0
+      enemyFighter.guardMeter = enemyFighter.maxGuard
+      enemyFighter.guardRegenDelay = 0
       enemyTransform.position = Vector3.create(ARENA_CONFIG.enemy.x, ARENA_CONFIG.enemy.y, ARENA_CONFIG.enemy.z)
       enemyTransform.rotation = Quaternion.fromEulerDegrees(0, -90, 0)
 
@@ -491,8 +1073,25 @@ export function resetMatch() {
       }
 
       enemyFighter.currentAnimation = 'idle'
+      enemyFighter.moveConnected = false
+      resetFighterState(enemy)
     }
   }
+}
+
+/**
+ * Reset match - called when player clicks "Restart Match" (back to round 1)
+ */
+export function resetMatch() {
+  console.log('🔄 Resetting match...')
+
+  resetMatchClock()
+  resetFighters()
+
+  // Super meter carries over between rounds, but not into a new match
+  for (const [entity] of engine.getEntitiesWith(FighterComponent)) {
+    FighterComponent.getMutable(entity).superMeter = 0
+  }
 
   // Reset game state with countdown
   const gameStateEntity = getGameState()
@@ -501,10 +1100,14 @@ export function resetMatch() {
     if (gameState) {
       gameState.isMatchActive = false
       gameState.winner = ''
-      gameState.comboCount = 0
-      gameState.lastHitTime = 0
-      gameState.countdownTimer = 3.0
-      gameState.roundNumber += 1
+      gameState.countdownTimer = MATCH_CONFIG.countdownTime
+      gameState.roundNumber = 1
+      gameState.playerRoundWins = 0
+      gameState.enemyRoundWins = 0
+      gameState.roundTimer = MATCH_CONFIG.roundTime
+      gameState.roundWinner = ''
+      gameState.roundEndReason = ''
+      gameState.roundEndTimer = 0
     }
   }
 
@@ -512,162 +1115,246 @@ export function resetMatch() {
 }
 
 /**
- * Game state system - handles match flow, countdown, and combo resets
+ * Restart the current round (pause menu) - round wins and round number are kept
  */
-export function gameStateSystem(dt: number) {
+export function restartRound() {
   const gameStateEntity = getGameState()
   if (!gameStateEntity) return
 
   const gameState = GameState.getMutableOrNull(gameStateEntity)
   if (!gameState) return
 
-  // Handle countdown timer at match start
-  if (gameState.countdownTimer > 0) {
-    gameState.countdownTimer -= dt
+  resetMatchClock()
+  resetFighters()
 
-    if (gameState.countdownTimer <= 0) {
-      gameState.countdownTimer = 0
-      gameState.isMatchActive = true
-      console.log('🥊 FIGHT!')
-    }
-    return // Don't process other logic during countdown
-  }
+  gameState.isMatchActive = false
+  gameState.countdownTimer = MATCH_CONFIG.countdownTime
+  gameState.roundTimer = MATCH_CONFIG.roundTime
+  gameState.roundWinner = ''
+  gameState.roundEndReason = ''
+  gameState.roundEndTimer = 0
 
-  // Reset combo if timeout expired
-  const currentTime = Date.now() / 1000
-  if (gameState.comboCount > 0 && currentTime - gameState.lastHitTime > COMBO_TIMEOUT) {
-    gameState.comboCount = 0
-  }
-
-  // Prevent movement if match is over
-  if (!gameState.isMatchActive) {
-    // Match is over
-  }
+  console.log(`🔄 Restarting round ${gameState.roundNumber}`)
 }
 
 /**
- * Enhanced enemy AI system with states
+ * Start the next round - fighters reset, round wins carry over
  */
-export function enemyAISystem(dt: number) {
-  // Check if match has started (countdown finished)
+function startNextRound() {
   const gameStateEntity = getGameState()
-  if (gameStateEntity) {
-    const gameState = GameState.getOrNull(gameStateEntity)
-    if (gameState && (gameState.countdownTimer > 0 || !gameState.isMatchActive)) {
-      return // Don't allow AI movement during countdown or after match end
-    }
-  }
+  if (!gameStateEntity) return
 
-  const enemy = getFighterByRole(false)
-  const player = getFighterByRole(true)
+  const gameState = GameState.getMutableOrNull(gameStateEntity)
+  if (!gameState) return
 
-  if (!enemy || !player) return
+  resetFighters()
 
-  const enemyTransform = Transform.getMutableOrNull(enemy)
-  const enemyFighter = FighterComponent.getMutableOrNull(enemy)
-  const playerTransform = Transform.getOrNull(player)
-  const playerFighter = FighterComponent.getOrNull(player)
+  gameState.roundNumber += 1
+  gameState.countdownTimer = MATCH_CONFIG.countdownTime
+  gameState.roundTimer = MATCH_CONFIG.roundTime
+  gameState.roundWinner = ''
+  gameState.roundEndReason = ''
+  gameState.roundEndTimer = 0
 
-  if (!enemyTransform || !enemyFighter || !playerTransform || !playerFighter) return
+  console.log(`🔔 Round ${gameState.roundNumber} - countdown starting!`)
+}
+
+/**
+ * End the current round and award it - the match ends once someone reaches roundsToWin
+ * A drawn round scores for both fighters, so both reaching roundsToWin together is a drawn match
+ */
+function endRound(roundWinner: 'player' | 'enemy' | 'draw', reason: 'ko' | 'time') {
+  const gameStateEntity = getGameState()
+  if (!gameStateEntity) return
 
-  // Don't act if dead or during animations/stun
-  if (enemyFighter.health <= 0 || playerFighter.health <= 0) return
-  if (enemyFighter.animationTimer > 0 || enemyFighter.stunTimer > 0) return
+  const gameState = GameState.getMutableOrNull(gameStateEntity)
+  if (!gameState || !gameState.isMatchActive) return
 
-  // Calculate distance to player
-  const distance = Vector3.distance(enemyTransform.position, playerTransform.position)
-  const rand = Math.random()
+  gameState.isMatchActive = false
+  gameState.roundWinner = roundWinner
+  gameState.roundEndReason = reason
 
-  // Smart blocking logic - block when player is close and likely to attack
-  const playerFighterState = FighterComponent.getOrNull(player)
-  const shouldConsiderBlocking = distance < 2.5 && playerFighterState && playerFighterState.attackCooldown <= 0.3
+  // Let the KO sink in
+  if (reason === 'ko') {
+    setSlowMotion(KO_SLOW_MOTION, KO_SLOW_MOTION_DURATION)
+  }
 
-  // AI decides to block (0.5% chance per frame = occasional blocking, not constant)
-  if (shouldConsiderBlocking && rand < 0.005) {
-    enemyFighter.blocking = true
-    if (enemyFighter.currentAnimation !== 'block') {
-      playAnimation(enemy, 'block')
-    }
-  } else if (rand < 0.01) {
-    // Stop blocking with slightly higher chance to not get stuck
-    enemyFighter.blocking = false
+  if (roundWinner !== 'enemy') gameState.playerRoundWins += 1
+  if (roundWinner !== 'player') gameState.enemyRoundWins += 1
+
+  emitCombatEvent({
+    type: 'roundEnd',
+    roundNumber: gameState.roundNumber,
+    result: roundWinner,
+    reason,
+    playerRoundWins: gameState.playerRoundWins,
+    enemyRoundWins: gameState.enemyRoundWins
+  })
+
+  const playerTakesMatch = gameState.playerRoundWins >= gameState.roundsToWin
+  const enemyTakesMatch = gameState.enemyRoundWins >= gameState.roundsToWin
+
+  if (playerTakesMatch || enemyTakesMatch) {
+    const result = playerTakesMatch && enemyTakesMatch ? 'draw' : playerTakesMatch ? 'player' : 'enemy'
+    gameState.winner = result
+    emitCombatEvent({
+      type: 'matchEnd',
+      result,
+      playerRoundWins: gameState.playerRoundWins,
+      enemyRoundWins: gameState.enemyRoundWins
+    })
+  } else {
+    // Show the round result, then gameStateSystem starts the next round
+    gameState.roundEndTimer = MATCH_CONFIG.roundEndDelay
   }
+}
 
-  // AI behavior based on distance (only if not blocking)
-  if (!enemyFighter.blocking) {
-    // AGGRESSIVE: Punish player during their attack cooldown (they're vulnerable!)
-    const playerIsVulnerable = playerFighterState && playerFighterState.attackCooldown > 0.4
+/**
+ * Award the round on KO - both fighters down on the same frame is a double KO (draw)
+ */
+function checkKnockouts() {
+  const player = getFighterByRole(true)
+  const enemy = getFighterByRole(false)
+  const playerFighter = player ? FighterComponent.getOrNull(player) : null
+  const enemyFighter = enemy ? FighterComponent.getOrNull(enemy) : null
+  if (!playerFighter || !enemyFighter) return
+
+  const playerDown = playerFighter.health <= 0
+  const enemyDown = enemyFighter.health <= 0
+
+  if (playerDown && enemyDown) {
+    endRound('draw', 'ko')
+  } else if (playerDown) {
+    endRound('enemy', 'ko')
+  } else if (enemyDown) {
+    endRound('player', 'ko')
+  }
+}
 
-    if (distance > 2.0) {
-      // Chase player (adjusted to match new HIT_RANGE)
-      const direction = Vector3.subtract(playerTransform.position, enemyTransform.position)
-      direction.y = 0
-      const normalizedDirection = Vector3.normalize(direction)
-      const velocity = Vector3.scale(normalizedDirection, ENEMY_SPEED * dt)
+/**
+ * Time over - the fighter with the higher health percentage takes the round
+ */
+function decideTimeOver() {
+  const player = getFighterByRole(true)
+  const enemy = getFighterByRole(false)
+  const playerFighter = player ? FighterComponent.getOrNull(player) : null
+  const enemyFighter = enemy ? FighterComponent.getOrNull(enemy) : null
+  if (!playerFighter || !enemyFighter) return
 
-      let newPosition = Vector3.add(enemyTransform.position, velocity)
+  const playerPercent = playerFighter.health / playerFighter.maxHealth
+  const enemyPercent = enemyFighter.health / enemyFighter.maxHealth
 
-      // Constrain to arena
-      newPosition.x = Math.max(ARENA_CONFIG.xMin, Math.min(ARENA_CONFIG.xMax, newPosition.x))
-      newPosition.z = Math.max(ARENA_CONFIG.zMin, Math.min(ARENA_CONFIG.zMax, newPosition.z))
-      newPosition.y = 0
+  if (playerPercent > enemyPercent) {
+    endRound('player', 'time')
+  } else if (enemyPercent > playerPercent) {
+    endRound('enemy', 'time')
+  } else {
+    endRound('draw', 'time')
+  }
+}
 
-      enemyTransform.position = newPosition
+/**
+ * Game state system - handles match flow, countdown, and round clock
+ */
+export function gameStateSystem() {
+  const dt = getMatchDelta()
+  if (dt <= 0) return // Clock frozen (pause / hit-stop)
+  const gameStateEntity = getGameState()
+  if (!gameStateEntity) return
 
-      if (enemyFighter.currentAnimation !== 'walk') {
-        playAnimation(enemy, 'walk')
-      }
-    } else if (distance <= 2.3) {
-      // In attack range - MUCH more aggressive (slightly beyond HIT_RANGE for pressure)
+  const gameState = GameState.getMutableOrNull(gameStateEntity)
+  if (!gameState) return
 
-      // If player just attacked, PUNISH THEM! (20% chance - easier now)
-      if (playerIsVulnerable && rand < 0.2 && enemyFighter.attackCooldown <= 0) {
-        performAttack(enemy)
-        console.log('🔥 AI PUNISHED YOUR WHIFF!')
-      }
-      // Normal attacks (3% chance per frame = attacks every ~0.5 seconds - much easier)
-      else if (rand < 0.03 && enemyFighter.attackCooldown <= 0) {
-        performAttack(enemy)
-      }
-      // Idle
-      else if (enemyFighter.currentAnimation !== 'idle' && enemyFighter.currentAnimation !== 'attack') {
-        playAnimation(enemy, 'idle')
-      }
+  // Handle countdown timer at match start
+  if (gameState.countdownTimer > 0) {
+    gameState.countdownTimer -= dt
+
+    if (gameState.countdownTimer <= 0) {
+      gameState.countdownTimer = 0
+      gameState.isMatchActive = true
+      emitCombatEvent({ type: 'roundStart', roundNumber: gameState.roundNumber })
+    }
+    return // Don't process other logic during countdown
+  }
+
+  // Between rounds - hold the result on screen, then reset automatically
+  if (gameState.roundEndTimer > 0) {
+    gameState.roundEndTimer -= dt
+    if (gameState.roundEndTimer <= 0) {
+      startNextRound()
+    }
+    return
+  }
+
+  // Round clock
+  if (gameState.isMatchActive) {
+    gameState.roundTimer = Math.max(0, gameState.roundTimer - dt)
+    if (gameState.roundTimer <= 0) {
+      decideTimeOver()
     }
   }
+
+  // Prevent movement if match is over
+  if (!gameState.isMatchActive) {
+    // Match is over
+  }
 }
 
 /**
- * Facing system - makes both fighters always face each other (like Street Fighter/Tekken)
+ * Facing system - fighters face each other, with a turn-around animation when they switch sides
  */
-export function facingSystem(dt: number) {
+export function facingSystem() {
+  if (getMatchDelta() <= 0) return // Clock frozen (pause / hit-stop)
+
   const player = getFighterByRole(true)
   const enemy = getFighterByRole(false)
 
   if (!player || !enemy) return
 
-  const playerTransform = Transform.getMutableOrNull(player)
-  const enemyTransform = Transform.getMutableOrNull(enemy)
+  updateFacing(player, enemy)
+  updateFacing(enemy, player)
+}
 
-  if (!playerTransform || !enemyTransform) return
+/**
+ * Aim one fighter at its opponent and handle side switches
+ */
+function updateFacing(entity: Entity, opponent: Entity) {
+  const transform = Transform.getMutableOrNull(entity)
+  const fighter = FighterComponent.getMutableOrNull(entity)
+  const opponentTransform = Transform.getOrNull(opponent)
 
-  // Make player face enemy
-  const toEnemy = Vector3.subtract(enemyTransform.position, playerTransform.position)
-  toEnemy.y = 0
-  if (Vector3.length(toEnemy) > 0.1) {
-    const playerAngle = Math.atan2(toEnemy.x, toEnemy.z) * (180 / Math.PI)
-    const playerTargetRotation = Quaternion.fromEulerDegrees(0, playerAngle, 0)
-    playerTransform.rotation = Quaternion.slerp(playerTransform.rotation, playerTargetRotation, dt * 10)
+  if (!transform || !fighter || !opponentTransform) return
+
+  const toOpponent = Vector3.subtract(opponentTransform.position, transform.position)
+  toOpponent.y = 0
+
+  // Side switch - once clearly crossed over and free to turn (not mid-attack, stunned or knocked back)
+  const opponentOnRight = toOpponent.x > 0
+  const canTurn = fighter.health > 0 && canAct(fighter.state as FighterState) && !fighter.knockbackActive
+  if (opponentOnRight !== fighter.facingRight && Math.abs(toOpponent.x) > SIDE_SWITCH_MARGIN && canTurn) {
+    fighter.facingRight = opponentOnRight
+    setFighterState(entity, 'turn', TURN_DURATION)
+    emitCombatEvent({
+      type: 'sideSwitch',
+      fighter: entity,
+      side: getSide(fighter.isPlayer),
+      facingRight: opponentOnRight
+    })
   }
 
-  // Make enemy face player
-  const toPlayer = Vector3.subtract(playerTransform.position, enemyTransform.position)
-  toPlayer.y = 0
-  if (Vector3.length(toPlayer) > 0.1) {
-    const enemyAngle = Math.atan2(toPlayer.x, toPlayer.z) * (180 / Math.PI)
-    const enemyTargetRotation = Quaternion.fromEulerDegrees(0, enemyAngle, 0)
-    enemyTransform.rotation = Quaternion.slerp(enemyTransform.rotation, enemyTargetRotation, dt * 10)
+  const sideYaw = fighter.facingRight ? 90 : -90
+  let yaw = sideYaw
+
+  if (fighter.state === 'turn') {
+    // Turn-around: spin 180 degrees from the old side, passing through facing the camera
+    const progress = Math.min(1, 1 - fighter.stateTimer / TURN_DURATION)
+    yaw = -sideYaw - Math.sign(sideYaw) * 180 * progress
+  } else if (Vector3.length(toOpponent) > 0.1 && opponentOnRight === fighter.facingRight) {
+    // Look straight at the opponent
+    yaw = Math.atan2(toOpponent.x, toOpponent.z) * (180 / Math.PI)
   }
+
+  transform.rotation = Quaternion.fromEulerDegrees(0, yaw, 0)
 }
 
 // Legacy exports for compatibility
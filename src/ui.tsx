@@ -6,13 +6,71 @@ import ReactEcs, { Label, ReactEcsRenderer, UiEntity, Button } from '@dcl/sdk/re
 import { FighterComponent, GameState } from './components'
 import { getPlayerEntity, getEnemyEntity, resetMatch } from './systems'
 import { getGameState } from './factory'
-import { returnToMainMenu } from './menuSystem'
-import { MenuStateComponent, getMenuState } from './menuState'
+import { returnToMainMenu, leaveBattle, startNextSurvivalFight } from './menuSystem'
+import { MenuStateComponent, getMenuState, TRAITS } from './menuState'
+import { PauseOverlay } from './pauseUi'
+import { pauseMatch } from './pauseMenu'
+import { CombatEventOf, FighterSide } from './combatEvents'
+import { getMatchTime } from './matchClock'
+import { getMatchStats } from './matchStats'
+import { isArcadeRun, getArcadeProgress, finishArcadeFight } from './arcadeMode'
+import { isSurvivalRun, getSurvivalStreak, restartSurvivalRun } from './survivalMode'
+
+const CALLOUT_DURATION = 1.0 // Match seconds a counter-hit / punish / trait callout stays up
+
+// Last counter-hit / punish / trait (set from hit and trait events)
+let hitCallout: { text: string, side: FighterSide, time: number } = { text: '', side: 'player', time: 0 }
 
 export function setupUi() {
   ReactEcsRenderer.setUiRenderer(battleUiComponent)
 }
 
+/**
+ * Hit event subscriber - flashes COUNTER HIT / PUNISH on the attacker's side
+ */
+export function showHitCallout(event: CombatEventOf<'hit'>) {
+  if (event.hitType === 'normal') return
+  hitCallout = {
+    text: event.hitType === 'counter' ? 'COUNTER HIT!' : 'PUNISH!',
+    side: event.attackerSide,
+    time: getMatchTime(),
+  }
+}
+
+/**
+ * Trait event subscriber - flashes the trait's name (UNDYING, ROCK SKIN) on its owner's side
+ */
+export function showTraitCallout(event: CombatEventOf<'trait'>) {
+  hitCallout = {
+    text: `${TRAITS[event.trait].name.toUpperCase()}!`,
+    side: event.side,
+    time: getMatchTime(),
+  }
+}
+
+/**
+ * Round-win pips (one per round needed to take the match)
+ */
+const RoundPips = ({ wins, roundsToWin, alignRight }: { wins: number, roundsToWin: number, alignRight: boolean }) => {
+  return (
+    <UiEntity
+      uiTransform={{
+        width: '100%',
+        height: 14,
+        flexDirection: 'row',
+        justifyContent: alignRight ? 'flex-end' : 'flex-start',
+      }}
+    >
+      {Array.from({ length: roundsToWin }, (_, i) => (
+        <UiEntity
+          uiTransform={{ width: 14, height: 14, margin: alignRight ? { left: 6 } : { right: 6 } }}
+          uiBackground={{ color: i < wins ? Color4.Yellow() : Color4.create(0.2, 0.2, 0.2, 0.8) }}
+        />
+      ))}
+    </UiEntity>
+  )
+}
+
 export const battleUiComponent = () => {
   // Check if we're in battle mode
   const menuStateEntity = getMenuState()
@@ -34,15 +92,43 @@ export const battleUiComponent = () => {
   const p1Health = playerFighter ? playerFighter.health : 0
   const p1MaxHealth = playerFighter ? playerFighter.maxHealth : 100
   const p1Anim = playerFighter ? playerFighter.currentAnimation : 'idle'
+  const p1Guard = playerFighter ? playerFighter.guardMeter : 100
+  const p1MaxGuard = playerFighter ? playerFighter.maxGuard : 100
+  const p1Super = playerFighter ? playerFighter.superMeter : 0
+  const p1MaxSuper = playerFighter ? playerFighter.maxSuper : 100
   
   const p2Health = enemyFighter ? enemyFighter.health : 0
   const p2MaxHealth = enemyFighter ? enemyFighter.maxHealth : 100
   const p2Anim = enemyFighter ? enemyFighter.currentAnimation : 'idle'
+  const p2Guard = enemyFighter ? enemyFighter.guardMeter : 100
+  const p2MaxGuard = enemyFighter ? enemyFighter.maxGuard : 100
+  const p2Super = enemyFighter ? enemyFighter.superMeter : 0
+  const p2MaxSuper = enemyFighter ? enemyFighter.maxSuper : 100
   
-  const comboCount = gameState ? gameState.comboCount : 0
+  const calloutAge = getMatchTime() - hitCallout.time
+  const callout = hitCallout.text !== '' && calloutAge >= 0 && calloutAge < CALLOUT_DURATION ? hitCallout : null
+  const playerStats = getMatchStats('player')
+  const enemyStats = getMatchStats('enemy')
+
+  const playerCombo = playerFighter ? playerFighter.comboCount : 0
+  const enemyCombo = enemyFighter ? enemyFighter.comboCount : 0
   const isMatchActive = gameState ? gameState.isMatchActive : true
   const winner = gameState ? gameState.winner : ''
   const countdownTimer = gameState ? gameState.countdownTimer : 0
+  const roundNumber = gameState ? gameState.roundNumber : 1
+  const roundsToWin = gameState ? gameState.roundsToWin : 2
+  const playerRoundWins = gameState ? gameState.playerRoundWins : 0
+  const enemyRoundWins = gameState ? gameState.enemyRoundWins : 0
+  const roundTimer = gameState ? gameState.roundTimer : 0
+  const roundWinner = gameState ? gameState.roundWinner : ''
+  const roundEndReason = gameState ? gameState.roundEndReason : ''
+  const isFinalRound = playerRoundWins === roundsToWin - 1 && enemyRoundWins === roundsToWin - 1
+  const roundWinnerText = roundWinner === 'player' ? 'PLAYER WINS THE ROUND' : roundWinner === 'enemy' ? 'AI WINS THE ROUND' : 'DRAW - BOTH FIGHTERS SCORE'
+  const roundResultText = roundEndReason === 'time' ? 'TIME OVER' : roundWinner === 'draw' ? 'DOUBLE K.O.' : 'K.O.'
+  const arcade = isArcadeRun()
+  const arcadeProgress = getArcadeProgress()
+  const survival = isSurvivalRun()
+  const survivalStreak = getSurvivalStreak()
   
   return (
     <UiEntity
@@ -56,7 +142,7 @@ export const battleUiComponent = () => {
       <UiEntity
         uiTransform={{
           width: '100%',
-          height: 120,
+          height: 152,
           flexDirection: 'row',
           justifyContent: 'center',
           alignItems: 'center',
@@ -67,7 +153,7 @@ export const battleUiComponent = () => {
         <UiEntity
           uiTransform={{
             width: 280,
-            height: 100,
+            height: 144,
             flexDirection: 'column',
             margin: { right: 15 }
           }}
@@ -94,15 +180,36 @@ export const battleUiComponent = () => {
               uiBackground={{ color: Color4.create(0.8, 0.2, 0.2, 1) }}
             />
           </UiEntity>
+          {/* Guard Meter */}
+          <UiEntity
+            uiTransform={{ width: '100%', height: 8, margin: { bottom: 4 } }}
+            uiBackground={{ color: Color4.create(0.2, 0.2, 0.2, 0.8) }}
+          >
+            <UiEntity
+              uiTransform={{ width: `${(p1Guard / p1MaxGuard) * 100}%`, height: '100%' }}
+              uiBackground={{ color: p1Guard < p1MaxGuard * 0.3 ? Color4.create(1, 0.3, 0.1, 1) : Color4.create(0.3, 0.8, 1, 1) }}
+            />
+          </UiEntity>
+          {/* Super Meter */}
+          <UiEntity
+            uiTransform={{ width: '100%', height: 8, margin: { bottom: 4 } }}
+            uiBackground={{ color: Color4.create(0.2, 0.2, 0.2, 0.8) }}
+          >
+            <UiEntity
+              uiTransform={{ width: `${(p1Super / p1MaxSuper) * 100}%`, height: '100%' }}
+              uiBackground={{ color: p1Super >= p1MaxSuper ? Color4.create(1, 1, 0.4, 1) : Color4.create(0.9, 0.6, 0.1, 1) }}
+            />
+          </UiEntity>
           <Label
-            value={`HP: ${p1Health}/${p1MaxHealth}${playerFighter && playerFighter.blocking ? ' | 🛡️ BLOCK' : ''}`}
+            value={`HP: ${p1Health}/${p1MaxHealth}${playerFighter && playerFighter.state === 'block' ? (playerFighter.stance === 'crouching' ? ' | 🛡️ LOW BLOCK' : ' | 🛡️ BLOCK') : ''}${playerFighter && playerFighter.state === 'guardBreak' ? ' | 💢 GUARD BREAK' : ''}${playerFighter && playerFighter.state === 'parry' ? ' | ⚡ PARRY!' : ''}${p1Super >= p1MaxSuper ? ' | 🌟 SUPER' : ''}`}
             fontSize={12}
-            color={playerFighter && playerFighter.blocking ? Color4.create(0.3, 0.8, 1, 1) : Color4.White()}
+            color={playerFighter && playerFighter.state === 'block' ? Color4.create(0.3, 0.8, 1, 1) : Color4.White()}
             uiTransform={{ width: '100%', height: 20 }}
           />
+          <RoundPips wins={playerRoundWins} roundsToWin={roundsToWin} alignRight={false} />
         </UiEntity>
 
-        {/* Center - VS Text & Combo Counter */}
+        {/* Center - Round Clock & Combo Counter */}
         <UiEntity
           uiTransform={{
             width: 120,
@@ -113,26 +220,59 @@ export const battleUiComponent = () => {
           }}
         >
           <Label
-            value="VS"
+            value={Math.ceil(roundTimer).toString()}
             fontSize={36}
-            color={Color4.Yellow()}
+            color={roundTimer <= 10 ? Color4.Red() : Color4.Yellow()}
             uiTransform={{ width: '100%', height: 50 }}
           />
-          {comboCount > 1 && (
+          {survival && (
+            <Label
+              value={`STREAK ${survivalStreak.streak}`}
+              fontSize={14}
+              color={Color4.create(0.6, 0.9, 1, 1)}
+              uiTransform={{ width: '100%', height: 20 }}
+            />
+          )}
+          {isMatchActive && (
+            <Button
+              value="❚❚ PAUSE"
+              variant="secondary"
+              fontSize={12}
+              uiTransform={{ width: 90, height: 24 }}
+              onMouseDown={() => pauseMatch()}
+            />
+          )}
+          {playerCombo > 1 && (
             <Label
-              value={`${comboCount} COMBO!`}
+              value={`◀ ${playerCombo} HIT COMBO!`}
               fontSize={18}
               color={Color4.create(1, 0.5, 0, 1)}
               uiTransform={{ width: '100%', height: 30 }}
             />
           )}
+          {enemyCombo > 1 && (
+            <Label
+              value={`${enemyCombo} HIT COMBO! ▶`}
+              fontSize={18}
+              color={Color4.create(1, 0.5, 0, 1)}
+              uiTransform={{ width: '100%', height: 30 }}
+            />
+          )}
+          {callout && (
+            <Label
+              value={callout.side === 'player' ? `◀ ${callout.text}` : `${callout.text} ▶`}
+              fontSize={18}
+              color={Color4.create(1, 0.2, 0.4, 1)}
+              uiTransform={{ width: '100%', height: 30 }}
+            />
+          )}
         </UiEntity>
 
         {/* Player 2 Health Bar (Right) */}
         <UiEntity
           uiTransform={{
             width: 280,
-            height: 100,
+            height: 144,
             flexDirection: 'column',
             alignItems: 'flex-end',
             margin: { left: 15 }
@@ -160,12 +300,33 @@ export const battleUiComponent = () => {
               uiBackground={{ color: Color4.create(0.2, 0.8, 0.2, 1) }}
             />
           </UiEntity>
+          {/* Guard Meter */}
+          <UiEntity
+            uiTransform={{ width: '100%', height: 8, margin: { bottom: 4 } }}
+            uiBackground={{ color: Color4.create(0.2, 0.2, 0.2, 0.8) }}
+          >
+            <UiEntity
+              uiTransform={{ width: `${(p2Guard / p2MaxGuard) * 100}%`, height: '100%' }}
+              uiBackground={{ color: p2Guard < p2MaxGuard * 0.3 ? Color4.create(1, 0.3, 0.1, 1) : Color4.create(0.3, 0.8, 1, 1) }}
+            />
+          </UiEntity>
+          {/* Super Meter */}
+          <UiEntity
+            uiTransform={{ width: '100%', height: 8, margin: { bottom: 4 } }}
+            uiBackground={{ color: Color4.create(0.2, 0.2, 0.2, 0.8) }}
+          >
+            <UiEntity
+              uiTransform={{ width: `${(p2Super / p2MaxSuper) * 100}%`, height: '100%' }}
+              uiBackground={{ color: p2Super >= p2MaxSuper ? Color4.create(1, 1, 0.4, 1) : Color4.create(0.9, 0.6, 0.1, 1) }}
+            />
+          </UiEntity>
           <Label
-            value={`HP: ${p2Health}/${p2MaxHealth}${enemyFighter && enemyFighter.blocking ? ' | 🛡️ BLOCK' : ''}`}
+            value={`HP: ${p2Health}/${p2MaxHealth}${enemyFighter && enemyFighter.state === 'block' ? (enemyFighter.stance === 'crouching' ? ' | 🛡️ LOW BLOCK' : ' | 🛡️ BLOCK') : ''}${enemyFighter && enemyFighter.state === 'guardBreak' ? ' | 💢 GUARD BREAK' : ''}${enemyFighter && enemyFighter.state === 'parry' ? ' | ⚡ PARRY!' : ''}${p2Super >= p2MaxSuper ? ' | 🌟 SUPER' : ''}`}
             fontSize={12}
-            color={enemyFighter && enemyFighter.blocking ? Color4.create(0.3, 0.8, 1, 1) : Color4.White()}
+            color={enemyFighter && enemyFighter.state === 'block' ? Color4.create(0.3, 0.8, 1, 1) : Color4.White()}
             uiTransform={{ width: '100%', height: 20 }}
           />
+          <RoundPips wins={enemyRoundWins} roundsToWin={roundsToWin} alignRight={true} />
         </UiEntity>
       </UiEntity>
 
@@ -184,7 +345,7 @@ export const battleUiComponent = () => {
           uiBackground={{ color: Color4.create(0, 0, 0, 0.5) }}
         >
           <Label
-            value={countdownTimer > 2 ? 'ROUND 1' : countdownTimer > 1 ? 'READY...' : 'FIGHT!'}
+            value={countdownTimer > 2 ? (isFinalRound ? 'FINAL ROUND' : `ROUND ${roundNumber}`) : countdownTimer > 1 ? 'READY...' : 'FIGHT!'}
             fontSize={72}
             color={Color4.Yellow()}
             uiTransform={{ width: '100%', height: 120 }}
@@ -198,6 +359,34 @@ export const battleUiComponent = () => {
         </UiEntity>
       )}
 
+      {/* Round Result Banner (between rounds) */}
+      {!isMatchActive && !winner && roundWinner && (
+        <UiEntity
+          uiTransform={{
+            width: '100%',
+            height: '100%',
+            position: { top: 0, left: 0 },
+            positionType: 'absolute',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+          }}
+        >
+          <Label
+            value={roundResultText}
+            fontSize={72}
+            color={Color4.Red()}
+            uiTransform={{ width: '100%', height: 120 }}
+          />
+          <Label
+            value={roundWinnerText}
+            fontSize={32}
+            color={Color4.White()}
+            uiTransform={{ width: '100%', height: 50 }}
+          />
+        </UiEntity>
+      )}
+
       {/* KO/Win Screen Overlay */}
       {!isMatchActive && winner && (
         <UiEntity
@@ -213,13 +402,13 @@ export const battleUiComponent = () => {
           uiBackground={{ color: Color4.create(0, 0, 0, 0.85) }}
         >
           <Label
-            value={winner === 'player' ? '🏆 YOU WIN! 🏆' : '💀 YOU LOSE 💀'}
+            value={winner === 'player' ? '🏆 YOU WIN! 🏆' : winner === 'draw' ? '🤝 DRAW 🤝' : '💀 YOU LOSE 💀'}
             fontSize={48}
-            color={winner === 'player' ? Color4.Yellow() : Color4.Red()}
+            color={winner === 'player' ? Color4.Yellow() : winner === 'draw' ? Color4.White() : Color4.Red()}
             uiTransform={{ width: '100%', height: 80, margin: {bottom: 20} }}
           />
           <Label
-            value={winner === 'player' ? 'VICTORY!' : 'DEFEAT'}
+            value={winner === 'player' ? 'VICTORY!' : winner === 'draw' ? roundResultText : 'DEFEAT'}
             fontSize={32}
             color={Color4.White()}
             uiTransform={{ width: '100%', height: 50, margin: {bottom: 30} }}
@@ -227,7 +416,7 @@ export const battleUiComponent = () => {
           <UiEntity
             uiTransform={{
               width: 500,
-              height: 220,
+              height: 280,
               flexDirection: 'column',
               alignItems: 'center',
             }}
@@ -240,23 +429,74 @@ export const battleUiComponent = () => {
               uiTransform={{ width: '100%', height: 40, margin: {top: 15} }}
             />
             <Label
-              value={`Final Score: ${p1Health} HP vs ${p2Health} HP`}
+              value={`Rounds: ${playerRoundWins} - ${enemyRoundWins} | Final HP: ${p1Health} vs ${p2Health}`}
               fontSize={16}
               color={Color4.White()}
               uiTransform={{ width: '100%', height: 30 }}
             />
+            <Label
+              value={`Counter Hits: ${playerStats.counterHits} - ${enemyStats.counterHits} | Punishes: ${playerStats.punishes} - ${enemyStats.punishes}`}
+              fontSize={14}
+              color={Color4.Gray()}
+              uiTransform={{ width: '100%', height: 25 }}
+            />
+            <Label
+              value={`Damage: ${playerStats.damage} - ${enemyStats.damage} | Max Combo: ${playerStats.maxCombo} - ${enemyStats.maxCombo} | Parries: ${playerStats.parries} - ${enemyStats.parries}`}
+              fontSize={14}
+              color={Color4.Gray()}
+              uiTransform={{ width: '100%', height: 25 }}
+            />
             
+            {/* Survival - streak so far (a win is banked when the match ends, see recordSurvivalResult) */}
+            {survival && (
+              <Label
+                value={winner === 'player' ? `Streak: ${survivalStreak.streak} | HP carries over` : `SURVIVAL OVER - Streak: ${survivalStreak.streak} | Best: ${survivalStreak.best}`}
+                fontSize={16}
+                color={Color4.create(0.6, 0.9, 1, 1)}
+                uiTransform={{ width: '100%', height: 25 }}
+              />
+            )}
+
             {/* Restart Match Button */}
-            <Button
-              value="RESTART MATCH"
-              variant="primary"
-              uiTransform={{ width: 300, height: 50, margin: { top: 20 } }}
-              fontSize={18}
-              onMouseDown={() => {
-                console.log('🔄 Restart button clicked')
-                resetMatch()
-              }}
-            />
+            {!arcade && !survival && (
+              <Button
+                value="RESTART MATCH"
+                variant="primary"
+                uiTransform={{ width: 300, height: 50, margin: { top: 20 } }}
+                fontSize={18}
+                onMouseDown={() => {
+                  console.log('🔄 Restart button clicked')
+                  resetMatch()
+                }}
+              />
+            )}
+
+            {/* Arcade - climb the ladder, or continue after a loss while continues are left (draws count as losses) */}
+            {arcade && (
+              <Button
+                value={winner === 'player' ? (arcadeProgress.bossFight ? 'CLAIM YOUR CROWN' : 'NEXT FIGHT') : (arcadeProgress.continues > 0 ? 'CONTINUE?' : 'GAME OVER')}
+                variant="primary"
+                uiTransform={{ width: 300, height: 50, margin: { top: 20 } }}
+                fontSize={18}
+                onMouseDown={() => leaveBattle(finishArcadeFight(winner === 'player'))}
+              />
+            )}
+
+            {/* Survival - next random opponent in the same arena, or a fresh run after a loss */}
+            {survival && (
+              <Button
+                value={winner === 'player' ? 'NEXT OPPONENT' : 'TRY AGAIN'}
+                variant="primary"
+                uiTransform={{ width: 300, height: 50, margin: { top: 20 } }}
+                fontSize={18}
+                onMouseDown={() => {
+                  if (winner !== 'player') {
+                    restartSurvivalRun()
+                  }
+                  startNextSurvivalFight()
+                }}
+              />
+            )}
             
             {/* Main Menu Button */}
             <Button
@@ -272,6 +512,9 @@ export const battleUiComponent = () => {
           </UiEntity>
         </UiEntity>
       )}
+
+      {/* Pause Menu Overlay */}
+      <PauseOverlay />
     </UiEntity>
   )
 }